@@ -0,0 +1,218 @@
+import { z } from "zod";
+
+import type { Computer } from "./computers/computer.js";
+
+/**
+ * The action vocabulary shared by the individual action tools and `batch`.
+ *
+ * Each action is described once as a raw zod shape (used directly as a tool's
+ * `inputSchema`) and executed by {@link performAction}, which returns the same
+ * short confirmation text the individual tool replies with.
+ */
+
+// ---------------------------------------------------------------------------
+// Shared parameters
+// ---------------------------------------------------------------------------
+
+export const buttonParam = z.enum(["left", "middle", "right"]);
+
+export const modifiersParam = z
+  .array(z.string())
+  .default([])
+  .describe(
+    'Modifier keys to hold during the action, e.g. ["ctrl"] or ["shift"]',
+  );
+
+export const displayParam = z
+  .number()
+  .int()
+  .optional()
+  .describe(
+    "Id of the display to target for this call (see list_displays). Defaults to the selected display.",
+  );
+
+// ---------------------------------------------------------------------------
+// Action parameter shapes
+// ---------------------------------------------------------------------------
+
+const pointShape = {
+  x: z.number().describe("X coordinate"),
+  y: z.number().describe("Y coordinate"),
+};
+
+const pressShape = {
+  x: z
+    .number()
+    .optional()
+    .describe("X coordinate to move to first. Defaults to the current pointer"),
+  y: z
+    .number()
+    .optional()
+    .describe("Y coordinate to move to first. Defaults to the current pointer"),
+  button: buttonParam.default("left").describe("Mouse button"),
+  display: displayParam,
+};
+
+const keyShape = {
+  key: z.string().describe('Key name, e.g. "shift" or "a"'),
+};
+
+export const actionShapes = {
+  click: {
+    ...pointShape,
+    button: buttonParam.default("left").describe("Mouse button to click"),
+    modifiers: modifiersParam,
+    clicks: z
+      .number()
+      .int()
+      .min(1)
+      .max(3)
+      .default(1)
+      .describe("Number of consecutive clicks (1-3)"),
+    display: displayParam,
+  },
+  double_click: {
+    ...pointShape,
+    button: buttonParam
+      .default("left")
+      .describe("Mouse button to double-click"),
+    modifiers: modifiersParam,
+    display: displayParam,
+  },
+  scroll: {
+    ...pointShape,
+    scroll_x: z.number().default(0).describe("Horizontal scroll delta"),
+    scroll_y: z.number().describe("Vertical scroll delta"),
+    display: displayParam,
+  },
+  type: {
+    text: z.string().describe("Text to type"),
+  },
+  keypress: {
+    keys: z
+      .array(z.string())
+      .describe('Key names, e.g. ["ctrl", "a"] or ["Enter"]'),
+  },
+  move: {
+    ...pointShape,
+    display: displayParam,
+  },
+  drag: {
+    path: z
+      .array(z.object({ x: z.number(), y: z.number() }))
+      .min(2)
+      .describe("Array of {x, y} points"),
+    button: buttonParam.default("left").describe("Mouse button to hold"),
+    modifiers: modifiersParam,
+    display: displayParam,
+  },
+  mouse_down: pressShape,
+  mouse_up: pressShape,
+  key_down: keyShape,
+  key_up: keyShape,
+  wait: {
+    ms: z.number().min(0).default(1000).describe("Milliseconds to wait"),
+  },
+};
+
+export type ActionName = keyof typeof actionShapes;
+
+type ActionArgs<N extends ActionName> = z.infer<
+  z.ZodObject<(typeof actionShapes)[N]>
+>;
+
+/** A single action, tagged with its name in the `action` field. */
+export type Action = {
+  [N in ActionName]: { action: N } & ActionArgs<N>;
+}[ActionName];
+
+function tagged<N extends ActionName>(name: N) {
+  return z.object({ action: z.literal(name), ...actionShapes[name] });
+}
+
+/** Schema accepting any {@link Action}, discriminated by `action`. */
+export const actionSchema = z.discriminatedUnion("action", [
+  tagged("click"),
+  tagged("double_click"),
+  tagged("scroll"),
+  tagged("type"),
+  tagged("keypress"),
+  tagged("move"),
+  tagged("drag"),
+  tagged("mouse_down"),
+  tagged("mouse_up"),
+  tagged("key_down"),
+  tagged("key_up"),
+  tagged("wait"),
+]);
+
+// ---------------------------------------------------------------------------
+// Execution
+// ---------------------------------------------------------------------------
+
+/** One-line description of the inputs currently held down. */
+export function heldSummary(computer: Computer): string {
+  const { buttons, keys } = computer.getHeldInputs();
+  const held = [...buttons.map((b) => `${b} button`), ...keys];
+  return held.length > 0 ? `Held: ${held.join(", ")}.` : "Nothing held.";
+}
+
+/** Execute one action and return its confirmation text. */
+export async function performAction(
+  computer: Computer,
+  action: Action,
+): Promise<string> {
+  switch (action.action) {
+    case "click": {
+      const { x, y, button, modifiers, clicks, display } = action;
+      await computer.click(x, y, button, { modifiers, clicks, display });
+      return "Clicked.";
+    }
+    case "double_click": {
+      const { x, y, button, modifiers, display } = action;
+      await computer.doubleClick(x, y, button, { modifiers, display });
+      return "Double-clicked.";
+    }
+    case "scroll": {
+      const { x, y, scroll_x, scroll_y, display } = action;
+      await computer.scroll(x, y, scroll_x, scroll_y, display);
+      return "Scrolled.";
+    }
+    case "type":
+      await computer.type(action.text);
+      return "Typed.";
+    case "keypress":
+      await computer.keypress(action.keys);
+      return "Key(s) pressed.";
+    case "move": {
+      const { x, y, display } = action;
+      await computer.move(x, y, display);
+      return "Moved.";
+    }
+    case "drag": {
+      const { path, button, modifiers, display } = action;
+      await computer.drag(path, { button, modifiers, display });
+      return "Dragged.";
+    }
+    case "mouse_down":
+    case "mouse_up": {
+      const { x, y, button, display } = action;
+      const down = action.action === "mouse_down";
+      if (x !== undefined && y !== undefined) {
+        await computer.move(x, y, display);
+      }
+      if (down) await computer.mouseDown(button);
+      else await computer.mouseUp(button);
+      return `${down ? "Pressed" : "Released"} ${button}. ${heldSummary(computer)}`;
+    }
+    case "key_down":
+      await computer.keyDown(action.key);
+      return `Pressed ${action.key}. ${heldSummary(computer)}`;
+    case "key_up":
+      await computer.keyUp(action.key);
+      return `Released ${action.key}. ${heldSummary(computer)}`;
+    case "wait":
+      await computer.wait(action.ms);
+      return `Waited ${action.ms}ms.`;
+  }
+}
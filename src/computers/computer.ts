@@ -18,6 +18,114 @@ export interface Point {
   y: number;
 }
 
+export interface Size {
+  width: number;
+  height: number;
+}
+
+export type ImageFormat = "png" | "jpeg" | "webp";
+
+/** How screenshots are encoded before they are returned. */
+export interface ImageEncoding {
+  /** Output format. Default `"png"`. */
+  format?: ImageFormat;
+
+  /** Quality (1–100) for JPEG and WebP; ignored for PNG. Default `80`. */
+  quality?: number;
+
+  /**
+   * Size ceiling in bytes. Larger images are re-encoded at decreasing
+   * quality (PNG falls back to JPEG) until they fit. Default 5 MB.
+   */
+  maxBytes?: number;
+
+  /** Convert to grayscale. Default `false`. */
+  grayscale?: boolean;
+}
+
+/** Options for {@link Computer.startRecording}. */
+export interface RecordingOptions {
+  /** Directory the recording is written to. Default: the system temp directory. */
+  dir?: string;
+
+  /**
+   * Frames per second, for backends that sample the screen themselves.
+   * Default `2`.
+   */
+  fps?: number;
+
+  /**
+   * File format, for backends that sample the screen themselves. Default
+   * `"webp"`. Browser recordings are always WebM.
+   */
+  format?: "webp" | "gif";
+}
+
+/** A finished recording. */
+export interface Recording {
+  /** Path of the video file. */
+  path: string;
+
+  /** MIME type of the file, e.g. `"video/webm"` or `"image/webp"`. */
+  mimeType: string;
+  durationMs: number;
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * A physical display attached to the machine.
+ *
+ * `x`, `y`, `width` and `height` describe where the display sits in the
+ * virtual desktop, in real (unscaled) pixels. `scaledWidth` and
+ * `scaledHeight` are the dimensions the model works with when the display is
+ * targeted, after `maxScalingDimension` has been applied.
+ */
+export interface Display {
+  id: number;
+  name: string;
+  isPrimary: boolean;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  scaledWidth: number;
+  scaledHeight: number;
+}
+
+export interface ClickOptions {
+  /** Modifier keys held during the click, e.g. `["ctrl"]` or `["shift"]`. */
+  modifiers?: string[];
+
+  /** Number of consecutive clicks, 1–3 (3 selects a paragraph). Default `1`. */
+  clicks?: number;
+
+  /** Display the coordinates are on. Default: the selected display. */
+  display?: number;
+}
+
+export interface DragOptions {
+  /** Mouse button held during the drag. Default `"left"`. */
+  button?: MouseButton;
+
+  /** Modifier keys held for the whole drag, e.g. `["alt"]`. */
+  modifiers?: string[];
+
+  /** Display the path is on. Default: the selected display. */
+  display?: number;
+}
+
+/** Inputs currently held down through the press/release primitives. */
+export interface HeldInputState {
+  buttons: MouseButton[];
+  keys: string[];
+}
+
 export interface ComputerOptions {
   /**
    * Optional maximum scaling dimension in the format "WIDTHxHEIGHT".
@@ -30,27 +138,93 @@ export interface ComputerOptions {
 // Computer interface
 // ---------------------------------------------------------------------------
 
+/**
+ * Methods that take a `display` id target that display for the one call,
+ * without changing the selection, so concurrent calls never see each
+ * other's display. Without it they target the selected display.
+ */
 export interface Computer {
   /** Which OS / environment this implementation targets. */
   getEnvironment(): Environment;
 
+  /** List every display that actions can target. */
+  listDisplays(): Promise<Display[]>;
+
+  /**
+   * Returns the display with the given id, or the one that screenshots and
+   * actions currently target.
+   */
+  getDisplay(display?: number): Promise<Display>;
+
+  /**
+   * Target the display with the given id for subsequent calls.
+   *
+   * All coordinates are relative to the top-left corner of the selected
+   * display, in its scaled coordinate space.
+   */
+  selectDisplay(id: number): Promise<void>;
+
+  /**
+   * Returns the pointer position in the scaled coordinate space of the
+   * targeted display. May lie outside its bounds when the pointer is on
+   * another display.
+   */
+  getCursorPosition(display?: number): Promise<Point>;
+
   /** Returns the screen (or viewport) dimensions as [width, height]. */
-  getDimensions(): Promise<[width: number, height: number]>;
+  getDimensions(display?: number): Promise<[width: number, height: number]>;
+
+  /**
+   * Capture a screenshot and return it as a base64-encoded image (PNG unless
+   * `encoding` asks otherwise).
+   */
+  screenshot(encoding?: ImageEncoding, display?: number): Promise<string>;
 
-  /** Capture a screenshot and return it as a base64-encoded PNG string. */
-  screenshot(): Promise<string>;
+  /** Capture a specific rectangular region and return it as a base64-encoded image. */
+  screenshotRegion(
+    p1: Point,
+    p2: Point,
+    encoding?: ImageEncoding,
+    display?: number,
+  ): Promise<string>;
 
-  /** Capture a specific rectangular region and return it as a base64-encoded PNG string. */
-  screenshotRegion(p1: Point, p2: Point): Promise<string>;
+  /**
+   * Capture a region given in scaled coordinates without downscaling it: at
+   * the display's native resolution, or resized (up or down) to fit within
+   * `size` while keeping its aspect ratio. Returns a base64-encoded image.
+   */
+  zoom(
+    p1: Point,
+    p2: Point,
+    size?: Size,
+    encoding?: ImageEncoding,
+    display?: number,
+  ): Promise<string>;
 
   /** Move the pointer to (x, y) and perform a mouse click. */
-  click(x: number, y: number, button?: MouseButton): Promise<void>;
+  click(
+    x: number,
+    y: number,
+    button?: MouseButton,
+    options?: ClickOptions,
+  ): Promise<void>;
 
   /** Move the pointer to (x, y) and double-click. */
-  doubleClick(x: number, y: number): Promise<void>;
+  doubleClick(
+    x: number,
+    y: number,
+    button?: MouseButton,
+    options?: Pick<ClickOptions, "modifiers" | "display">,
+  ): Promise<void>;
 
   /** Move the pointer to (x, y) and scroll by the given deltas. */
-  scroll(x: number, y: number, scrollX: number, scrollY: number): Promise<void>;
+  scroll(
+    x: number,
+    y: number,
+    scrollX: number,
+    scrollY: number,
+    display?: number,
+  ): Promise<void>;
 
   /** Type the given text string as keyboard input. */
   type(text: string): Promise<void>;
@@ -59,7 +233,7 @@ export interface Computer {
   wait(ms?: number): Promise<void>;
 
   /** Move the pointer to (x, y) without clicking. */
-  move(x: number, y: number): Promise<void>;
+  move(x: number, y: number, display?: number): Promise<void>;
 
   /**
    * Press a key combination.
@@ -75,5 +249,48 @@ export interface Computer {
    * The first point is where the mouse button is pressed down; the last is
    * where it is released.
    */
-  drag(path: Point[]): Promise<void>;
+  drag(path: Point[], options?: DragOptions): Promise<void>;
+
+  /** Press and hold a mouse button at the current pointer position. */
+  mouseDown(button?: MouseButton): Promise<void>;
+
+  /** Release a mouse button previously pressed with {@link mouseDown}. */
+  mouseUp(button?: MouseButton): Promise<void>;
+
+  /** Press and hold a single key (same key names as {@link keypress}). */
+  keyDown(key: string): Promise<void>;
+
+  /** Release a key previously pressed with {@link keyDown}. */
+  keyUp(key: string): Promise<void>;
+
+  /** Read the clipboard as text. */
+  getClipboard(): Promise<string>;
+
+  /** Replace the clipboard contents with `text`. */
+  setClipboard(text: string): Promise<void>;
+
+  /**
+   * Insert `text` into the focused element by placing it on the clipboard and
+   * sending the platform paste shortcut. Much faster than {@link type} for
+   * long text.
+   */
+  pasteText(text: string): Promise<void>;
+
+  /** Returns the mouse buttons and keys that are currently held down. */
+  getHeldInputs(): HeldInputState;
+
+  /**
+   * Release every held key (in reverse press order) and mouse button.
+   * Called automatically when a session ends.
+   */
+  releaseAll(): Promise<void>;
+
+  /** Start recording the screen to a video file. Throws if already recording. */
+  startRecording(options?: RecordingOptions): Promise<void>;
+
+  /** Finish the current recording and return where it was written. */
+  stopRecording(): Promise<Recording>;
+
+  /** Whether a recording is in progress. */
+  isRecording(): boolean;
 }
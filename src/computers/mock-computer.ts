@@ -0,0 +1,757 @@
+import { readFileSync } from "node:fs";
+import { mkdir, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import sharp from "sharp";
+import { z } from "zod";
+import {
+  ClickOptions,
+  Computer,
+  ComputerOptions,
+  Display,
+  DragOptions,
+  Environment,
+  HeldInputState,
+  ImageEncoding,
+  MouseButton,
+  Point,
+  Recording,
+  RecordingOptions,
+  Size,
+} from "./computer.js";
+import { compressImage } from "../utils/compress-image.js";
+import { CoordinateSpace } from "../utils/coordinate-space.js";
+import { HeldInputs } from "../utils/held-inputs.js";
+import { encodeAnimation, FrameSampler } from "../utils/frame-sampler.js";
+
+// ---------------------------------------------------------------------------
+// Scenes
+// ---------------------------------------------------------------------------
+
+const boxShape = {
+  /** Unique name, used to look the element up and in `onClick`. */
+  id: z.string(),
+  x: z.number(),
+  y: z.number(),
+  width: z.number().positive(),
+  height: z.number().positive(),
+
+  /** Left out of the screen (and of clicks) until shown. Default `false`. */
+  hidden: z.boolean().optional(),
+};
+
+const elementSchema = z.discriminatedUnion("type", [
+  z
+    .object({
+      ...boxShape,
+      type: z.literal("button"),
+      label: z.string(),
+
+      /** Times the button was clicked. Default `0`. */
+      clicks: z.number().int().min(0).optional(),
+
+      /** Elements shown and hidden by a click, by id. */
+      onClick: z
+        .object({
+          show: z.array(z.string()).optional(),
+          hide: z.array(z.string()).optional(),
+        })
+        .strict()
+        .optional(),
+    })
+    .strict(),
+  z
+    .object({
+      ...boxShape,
+      type: z.literal("text_field"),
+      value: z.string().optional(),
+
+      /** Grey text shown while the field is empty. */
+      placeholder: z.string().optional(),
+    })
+    .strict(),
+  z
+    .object({
+      ...boxShape,
+      type: z.literal("text"),
+      text: z.string(),
+    })
+    .strict(),
+]);
+
+export const mockSceneSchema = z
+  .object({
+    width: z.number().int().positive(),
+    height: z.number().int().positive(),
+
+    /** CSS colour behind the elements. Default `"#f5f5f5"`. */
+    background: z.string().optional(),
+
+    /** Elements from back to front. */
+    elements: z.array(elementSchema),
+  })
+  .strict()
+  .superRefine(({ elements }, ctx) => {
+    // Ids must be unique and `onClick` may only name existing elements
+    const ids = new Set<string>();
+    for (const [i, element] of elements.entries()) {
+      if (ids.has(element.id)) {
+        ctx.addIssue({
+          code: "custom",
+          message: `Duplicate element id "${element.id}"`,
+          path: ["elements", i, "id"],
+        });
+      }
+      ids.add(element.id);
+    }
+    for (const [i, element] of elements.entries()) {
+      if (element.type !== "button") continue;
+      for (const list of ["show", "hide"] as const) {
+        for (const [j, id] of (element.onClick?.[list] ?? []).entries()) {
+          if (ids.has(id)) continue;
+          ctx.addIssue({
+            code: "custom",
+            message: `No element "${id}" in the scene`,
+            path: ["elements", i, "onClick", list, j],
+          });
+        }
+      }
+    }
+  });
+
+/** A screen of buttons, text fields and labels drawn by {@link MockComputer}. */
+export type MockScene = z.infer<typeof mockSceneSchema>;
+
+export type MockElement = MockScene["elements"][number];
+
+/** A sign-up form, used when no scene is given. */
+export const DEFAULT_MOCK_SCENE: MockScene = {
+  width: 800,
+  height: 600,
+  elements: [
+    {
+      id: "title",
+      type: "text",
+      text: "Sign up",
+      x: 40,
+      y: 30,
+      width: 300,
+      height: 40,
+    },
+    {
+      id: "name",
+      type: "text_field",
+      placeholder: "Name",
+      x: 40,
+      y: 100,
+      width: 320,
+      height: 36,
+    },
+    {
+      id: "email",
+      type: "text_field",
+      placeholder: "Email",
+      x: 40,
+      y: 156,
+      width: 320,
+      height: 36,
+    },
+    {
+      id: "submit",
+      type: "button",
+      label: "Submit",
+      x: 40,
+      y: 220,
+      width: 120,
+      height: 40,
+      onClick: { show: ["done"] },
+    },
+    {
+      id: "done",
+      type: "text",
+      text: "Thanks for signing up!",
+      x: 40,
+      y: 290,
+      width: 400,
+      height: 30,
+      hidden: true,
+    },
+  ],
+};
+
+/** Read and validate a scene file. */
+export function loadMockScene(file: string): MockScene {
+  let json: unknown;
+  try {
+    json = JSON.parse(readFileSync(file, "utf8"));
+  } catch (err) {
+    throw new Error(
+      `Cannot read scene file ${file}: ${err instanceof Error ? err.message : err}`,
+    );
+  }
+  return parseScene(json, `scene file ${file}`);
+}
+
+/** Validate a scene, returning a copy. `what` names it in the error. */
+function parseScene(scene: unknown, what: string): MockScene {
+  const parsed = mockSceneSchema.safeParse(scene);
+  if (!parsed.success) {
+    throw new Error(`Invalid ${what}: ${z.prettifyError(parsed.error)}`);
+  }
+  return parsed.data;
+}
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+const FONT = `font-family="sans-serif" font-size="16"`;
+
+const escapeXml = (text: string) =>
+  text.replace(
+    /[<>&"']/g,
+    (c) =>
+      ({
+        "<": "&lt;",
+        ">": "&gt;",
+        "&": "&amp;",
+        '"': "&quot;",
+        "'": "&apos;",
+      })[c]!,
+  );
+
+/** SVG for one element; text is clipped to its box. */
+function renderElement(element: MockElement, focused: boolean): string {
+  const { x, y, width, height } = element;
+  const baseline = height / 2 + 6;
+
+  switch (element.type) {
+    case "button":
+      return `<svg x="${x}" y="${y}" width="${width}" height="${height}">
+    <rect x="1" y="1" width="${width - 2}" height="${height - 2}" rx="4" fill="#1a73e8"/>
+    <text x="${width / 2}" y="${baseline}" text-anchor="middle" fill="#ffffff" ${FONT}>${escapeXml(element.label)}</text>
+  </svg>`;
+    case "text_field": {
+      const text = element.value
+        ? `<text x="8" y="${baseline}" fill="#202124" ${FONT}>${escapeXml(element.value)}</text>`
+        : element.placeholder
+          ? `<text x="8" y="${baseline}" fill="#9aa0a6" ${FONT}>${escapeXml(element.placeholder)}</text>`
+          : "";
+      return `<svg x="${x}" y="${y}" width="${width}" height="${height}">
+    <rect x="1" y="1" width="${width - 2}" height="${height - 2}" rx="2" fill="#ffffff"
+      stroke="${focused ? "#1a73e8" : "#9aa0a6"}" stroke-width="2"/>
+    ${text}
+  </svg>`;
+    }
+    case "text":
+      return `<svg x="${x}" y="${y}" width="${width}" height="${height}">
+    <text x="0" y="${baseline}" fill="#202124" ${FONT}>${escapeXml(element.text)}</text>
+  </svg>`;
+  }
+}
+
+/** Draw a scene as a PNG at its own size. */
+async function renderScene(
+  scene: MockScene,
+  focusedId: string | null,
+): Promise<Buffer> {
+  const body = scene.elements
+    .filter((e) => !e.hidden)
+    .map((e) => renderElement(e, e.id === focusedId));
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${scene.width}" height="${scene.height}">
+  <rect width="100%" height="100%" fill="${scene.background ?? "#f5f5f5"}"/>
+  ${body.join("\n  ")}
+</svg>`;
+  return sharp(Buffer.from(svg)).png().toBuffer();
+}
+
+// ---------------------------------------------------------------------------
+// MockComputer
+// ---------------------------------------------------------------------------
+
+const KEY_ALIASES: Record<string, string> = {
+  return: "enter",
+  control: "ctrl",
+  option: "alt",
+  cmd: "meta",
+  command: "meta",
+  super: "meta",
+  win: "meta",
+  esc: "escape",
+};
+
+function normalizeKey(key: string): string {
+  const lower = key.toLowerCase();
+  return KEY_ALIASES[lower] ?? lower;
+}
+
+/** One logged method call of a {@link MockComputer}. */
+export interface MockCall {
+  method: string;
+  args: unknown[];
+}
+
+export interface MockComputerOptions extends ComputerOptions {
+  /** Scene to start from. Default {@link DEFAULT_MOCK_SCENE}. */
+  scene?: MockScene;
+
+  /** Environment to report. Default `"linux"`. */
+  environment?: Environment;
+}
+
+/**
+ * In-memory computer for testing clients without a display or browser.
+ *
+ * It draws a {@link MockScene} with sharp and reacts like a very small UI
+ * toolkit: clicking a text field focuses it, typing and pasting edit the
+ * focused field (Backspace deletes, Tab moves focus), and clicking a button
+ * counts the click and shows or hides the elements named in its `onClick`.
+ * Rendering is deterministic, so equal states give identical screenshots.
+ *
+ * Every call that captures or changes something is logged (see
+ * {@link getCalls}); plain queries such as `getDimensions` are not.
+ */
+export class MockComputer implements Computer {
+  private scene: MockScene;
+  private readonly space: CoordinateSpace;
+  private readonly environment: Environment;
+  private readonly held = new HeldInputs();
+  private readonly calls: MockCall[] = [];
+  private focusedId: string | null = null;
+  private cursor: Point = { x: 0, y: 0 };
+  private clipboard = "";
+  private recording: {
+    sampler: FrameSampler;
+    dir: string;
+    format: "webp" | "gif";
+  } | null = null;
+
+  constructor(options: MockComputerOptions = {}) {
+    this.scene = parseScene(options.scene ?? DEFAULT_MOCK_SCENE, "scene");
+    this.environment = options.environment ?? "linux";
+    this.space = new CoordinateSpace(this.scene.width, this.scene.height, {
+      maxScalingDimension: options.maxScalingDimension,
+    });
+  }
+
+  // ---- inspection -------------------------------------------------------
+
+  /** Logged calls, oldest first. */
+  getCalls(): MockCall[] {
+    return this.calls.map((call) => ({ ...call, args: [...call.args] }));
+  }
+
+  clearCalls(): void {
+    this.calls.length = 0;
+  }
+
+  /** The current state of the scene, e.g. typed values and click counts. */
+  getScene(): MockScene {
+    return structuredClone(this.scene);
+  }
+
+  /** Replace the scene, e.g. to move on to the next step of a test. */
+  setScene(scene: MockScene): void {
+    const next = parseScene(scene, "scene");
+    if (
+      scene.width !== this.scene.width ||
+      scene.height !== this.scene.height
+    ) {
+      throw new Error(
+        `Scene size ${scene.width}x${scene.height} differs from ${this.scene.width}x${this.scene.height}.`,
+      );
+    }
+    this.scene = next;
+    this.focusedId = null;
+  }
+
+  /** The current state of one element. Throws for unknown ids. */
+  getElement(id: string): MockElement {
+    return structuredClone(this.findElement(id));
+  }
+
+  /** Id of the focused text field, if any. */
+  getFocusedElement(): string | null {
+    return this.focusedId;
+  }
+
+  private log(method: string, ...args: unknown[]): void {
+    this.calls.push({ method, args });
+  }
+
+  private findElement(id: string): MockElement {
+    const element = this.scene.elements.find((e) => e.id === id);
+    if (!element) throw new Error(`No element "${id}" in the scene.`);
+    return element;
+  }
+
+  /** The front-most visible element at a real point. */
+  private elementAt({ x, y }: Point): MockElement | undefined {
+    return [...this.scene.elements]
+      .reverse()
+      .find(
+        (e) =>
+          !e.hidden &&
+          x >= e.x &&
+          x < e.x + e.width &&
+          y >= e.y &&
+          y < e.y + e.height,
+      );
+  }
+
+  private focusedField(): Extract<MockElement, { type: "text_field" }> | null {
+    if (!this.focusedId) return null;
+    const element = this.findElement(this.focusedId);
+    return element.type === "text_field" && !element.hidden ? element : null;
+  }
+
+  // ---- displays ---------------------------------------------------------
+
+  getEnvironment(): Environment {
+    return this.environment;
+  }
+
+  async listDisplays(): Promise<Display[]> {
+    return [await this.getDisplay()];
+  }
+
+  async getDisplay(display?: number): Promise<Display> {
+    this.assertDisplay(display);
+    return {
+      id: 0,
+      name: "Mock display",
+      isPrimary: true,
+      x: 0,
+      y: 0,
+      width: this.space.realWidth,
+      height: this.space.realHeight,
+      scaledWidth: this.space.scaledWidth,
+      scaledHeight: this.space.scaledHeight,
+    };
+  }
+
+  async selectDisplay(id: number): Promise<void> {
+    this.log("selectDisplay", id);
+    this.assertDisplay(id);
+  }
+
+  /** Reject display ids other than the mock display's. */
+  private assertDisplay(id = 0): void {
+    if (id !== 0) throw new Error(`Display ${id} not found (available: 0)`);
+  }
+
+  async getDimensions(display?: number): Promise<[number, number]> {
+    this.assertDisplay(display);
+    return [this.space.scaledWidth, this.space.scaledHeight];
+  }
+
+  async getCursorPosition(display?: number): Promise<Point> {
+    this.assertDisplay(display);
+    return this.space.toScaled(this.cursor);
+  }
+
+  // ---- screenshots ------------------------------------------------------
+
+  async screenshot(
+    encoding?: ImageEncoding,
+    display?: number,
+  ): Promise<string> {
+    this.log("screenshot", encoding, display);
+    this.assertDisplay(display);
+    const png = await renderScene(this.scene, this.focusedId);
+    const resize = this.space.isScaled
+      ? { width: this.space.scaledWidth, height: this.space.scaledHeight }
+      : undefined;
+    return (await compressImage(png, resize, encoding)).toString("base64");
+  }
+
+  /** Crop a region given in scaled coordinates from the full-size scene. */
+  private async captureRegion(
+    p1: Point,
+    p2: Point,
+    display?: number,
+  ): Promise<{ png: Buffer; width: number; height: number }> {
+    this.assertDisplay(display);
+    this.space.assertWithinBounds(p1);
+    this.space.assertWithinBounds(p2);
+    const a = this.space.toReal(p1);
+    const b = this.space.toReal(p2);
+    const left = Math.max(0, Math.min(a.x, b.x));
+    const top = Math.max(0, Math.min(a.y, b.y));
+    const width = Math.max(
+      1,
+      Math.min(this.scene.width, Math.max(a.x, b.x)) - left,
+    );
+    const height = Math.max(
+      1,
+      Math.min(this.scene.height, Math.max(a.y, b.y)) - top,
+    );
+
+    const png = await sharp(await renderScene(this.scene, this.focusedId))
+      .extract({
+        left: Math.min(left, this.scene.width - 1),
+        top: Math.min(top, this.scene.height - 1),
+        width: Math.min(width, this.scene.width - left),
+        height: Math.min(height, this.scene.height - top),
+      })
+      .png()
+      .toBuffer();
+    return { png, width, height };
+  }
+
+  async screenshotRegion(
+    p1: Point,
+    p2: Point,
+    encoding?: ImageEncoding,
+    display?: number,
+  ): Promise<string> {
+    this.log("screenshotRegion", p1, p2, encoding, display);
+    const { png, width, height } = await this.captureRegion(p1, p2, display);
+    const resize = this.space.isScaled
+      ? {
+          width: Math.max(1, this.space.toScaledLength(width)),
+          height: Math.max(1, this.space.toScaledLength(height)),
+        }
+      : undefined;
+    return (await compressImage(png, resize, encoding)).toString("base64");
+  }
+
+  async zoom(
+    p1: Point,
+    p2: Point,
+    size?: Size,
+    encoding?: ImageEncoding,
+    display?: number,
+  ): Promise<string> {
+    this.log("zoom", p1, p2, size, encoding, display);
+    const { png } = await this.captureRegion(p1, p2, display);
+    const compressed = await compressImage(
+      png,
+      size && { ...size, enlarge: true },
+      encoding,
+    );
+    return compressed.toString("base64");
+  }
+
+  // ---- pointer ----------------------------------------------------------
+
+  /** Move to a scaled point and return it in scene pixels. */
+  private moveTo(x: number, y: number, display?: number): Point {
+    this.assertDisplay(display);
+    this.space.assertWithinBounds({ x, y });
+    this.cursor = this.space.toReal({ x, y });
+    return this.cursor;
+  }
+
+  /** React to `clicks` clicks at a scene point. */
+  private press(at: Point, button: MouseButton, clicks: number): void {
+    if (button !== "left") return;
+
+    const target = this.elementAt(at);
+    this.focusedId = target?.type === "text_field" ? target.id : null;
+    if (target?.type !== "button") return;
+
+    target.clicks = (target.clicks ?? 0) + clicks;
+    for (const id of target.onClick?.show ?? []) {
+      this.findElement(id).hidden = false;
+    }
+    for (const id of target.onClick?.hide ?? []) {
+      this.findElement(id).hidden = true;
+    }
+  }
+
+  async click(
+    x: number,
+    y: number,
+    button: MouseButton = "left",
+    options: ClickOptions = {},
+  ): Promise<void> {
+    this.log("click", x, y, button, options);
+    this.press(this.moveTo(x, y, options.display), button, options.clicks ?? 1);
+  }
+
+  async doubleClick(
+    x: number,
+    y: number,
+    button: MouseButton = "left",
+    options: Pick<ClickOptions, "modifiers" | "display"> = {},
+  ): Promise<void> {
+    this.log("doubleClick", x, y, button, options);
+    this.press(this.moveTo(x, y, options.display), button, 2);
+  }
+
+  async scroll(
+    x: number,
+    y: number,
+    scrollX: number,
+    scrollY: number,
+    display?: number,
+  ): Promise<void> {
+    this.log("scroll", x, y, scrollX, scrollY, display);
+    this.moveTo(x, y, display);
+  }
+
+  async move(x: number, y: number, display?: number): Promise<void> {
+    this.log("move", x, y, display);
+    this.moveTo(x, y, display);
+  }
+
+  async drag(path: Point[], options: DragOptions = {}): Promise<void> {
+    this.log("drag", path, options);
+    this.assertDisplay(options.display);
+    for (const pt of path) this.space.assertWithinBounds(pt);
+    for (const pt of path) this.moveTo(pt.x, pt.y);
+  }
+
+  async mouseDown(button: MouseButton = "left"): Promise<void> {
+    this.log("mouseDown", button);
+    this.held.pressButton(button);
+  }
+
+  async mouseUp(button: MouseButton = "left"): Promise<void> {
+    this.log("mouseUp", button);
+    if (this.held.heldButtons().includes(button)) {
+      this.press(this.cursor, button, 1);
+    }
+    this.held.releaseButton(button);
+  }
+
+  // ---- keyboard ---------------------------------------------------------
+
+  /** Insert text into the focused field, if any. */
+  private insert(text: string): void {
+    const field = this.focusedField();
+    if (field) field.value = (field.value ?? "") + text;
+  }
+
+  async type(text: string): Promise<void> {
+    this.log("type", text);
+    this.insert(text);
+  }
+
+  async keypress(keys: string[]): Promise<void> {
+    this.log("keypress", keys);
+    const pressed = new Set([
+      ...this.held.heldKeys(),
+      ...keys.map(normalizeKey),
+    ]);
+    // Single characters keep their case, so ["A"] types "A"
+    const last = keys[keys.length - 1] ?? "";
+    const main = last.length === 1 ? last : normalizeKey(last);
+    const shortcut = pressed.has("ctrl") || pressed.has("meta");
+
+    if (shortcut && main.toLowerCase() === "v") {
+      this.insert(this.clipboard);
+    } else if (main === "backspace") {
+      const field = this.focusedField();
+      if (field?.value) field.value = field.value.slice(0, -1);
+    } else if (main === "tab") {
+      this.moveFocus(pressed.has("shift") ? -1 : 1);
+    } else if (main.length === 1 && !shortcut && !pressed.has("alt")) {
+      this.insert(pressed.has("shift") ? main.toUpperCase() : main);
+    } else if (main === "space" && !shortcut) {
+      this.insert(" ");
+    }
+  }
+
+  /** Focus the next (or previous) visible text field, wrapping around. */
+  private moveFocus(step: 1 | -1): void {
+    const fields = this.scene.elements.filter(
+      (e) => e.type === "text_field" && !e.hidden,
+    );
+    if (fields.length === 0) return;
+    const current = fields.findIndex((e) => e.id === this.focusedId);
+    const next =
+      current === -1
+        ? step === 1
+          ? 0
+          : fields.length - 1
+        : (current + step + fields.length) % fields.length;
+    this.focusedId = fields[next].id;
+  }
+
+  async keyDown(key: string): Promise<void> {
+    this.log("keyDown", key);
+    this.held.pressKey(normalizeKey(key));
+  }
+
+  async keyUp(key: string): Promise<void> {
+    this.log("keyUp", key);
+    this.held.releaseKey(normalizeKey(key));
+  }
+
+  // ---- clipboard --------------------------------------------------------
+
+  async getClipboard(): Promise<string> {
+    return this.clipboard;
+  }
+
+  async setClipboard(text: string): Promise<void> {
+    this.log("setClipboard", text);
+    this.clipboard = text;
+  }
+
+  async pasteText(text: string): Promise<void> {
+    this.log("pasteText", text);
+    this.clipboard = text;
+    this.insert(text);
+  }
+
+  // ---- misc -------------------------------------------------------------
+
+  async wait(ms = 1000): Promise<void> {
+    this.log("wait", ms);
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+
+  getHeldInputs(): HeldInputState {
+    return { buttons: this.held.heldButtons(), keys: this.held.heldKeys() };
+  }
+
+  async releaseAll(): Promise<void> {
+    this.log("releaseAll");
+    this.held.clear();
+  }
+
+  // ---- recording --------------------------------------------------------
+
+  /** Sample the scene at `fps` into an animated WebP or GIF. */
+  async startRecording(options: RecordingOptions = {}): Promise<void> {
+    this.log("startRecording", options);
+    if (this.recording) {
+      throw new Error("A recording is already in progress.");
+    }
+    const sampler = new FrameSampler(
+      () => renderScene(this.scene, this.focusedId),
+      { fps: options.fps },
+    );
+    this.recording = {
+      sampler,
+      dir: options.dir ?? os.tmpdir(),
+      format: options.format ?? "webp",
+    };
+    sampler.start();
+  }
+
+  async stopRecording(): Promise<Recording> {
+    this.log("stopRecording");
+    if (!this.recording) throw new Error("No recording is in progress.");
+    const { sampler, dir, format } = this.recording;
+    this.recording = null;
+
+    const sampled = await sampler.stop();
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    const file = path.join(dir, `recording-${stamp}.${format}`);
+    await mkdir(dir, { recursive: true });
+    await writeFile(file, await encodeAnimation(sampled, format));
+    return {
+      path: file,
+      mimeType: `image/${format}`,
+      durationMs: sampled.durationMs,
+    };
+  }
+
+  isRecording(): boolean {
+    return this.recording !== null;
+  }
+}
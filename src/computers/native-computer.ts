@@ -1,14 +1,30 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
 import robot from "robotjs";
 import { Monitor } from "node-screenshots";
 import { generatePath } from "../utils/mouse-path.js";
 import {
+  ClickOptions,
   Computer,
   ComputerOptions,
+  Display,
+  DragOptions,
   Environment,
+  HeldInputState,
+  ImageEncoding,
   MouseButton,
   Point,
+  Recording,
+  RecordingOptions,
+  Size,
 } from "./computer.js";
 import { compressImage } from "../utils/compress-image.js";
+import { CoordinateSpace } from "../utils/coordinate-space.js";
+import { HeldInputs } from "../utils/held-inputs.js";
+import { drawCursor } from "../utils/draw-cursor.js";
+import { readClipboard, writeClipboard } from "../utils/clipboard.js";
+import { encodeAnimation, FrameSampler } from "../utils/frame-sampler.js";
 
 // ---------------------------------------------------------------------------
 // robotjs key mapping
@@ -39,6 +55,8 @@ const KEY_MAP: Record<string, string> = {
   command: "command",
   cmd: "command",
   meta: "command",
+  super: "command",
+  win: "command",
   f1: "f1",
   f2: "f2",
   f3: "f3",
@@ -53,67 +71,133 @@ const KEY_MAP: Record<string, string> = {
   f12: "f12",
 };
 
+function toRobotKey(key: string): string {
+  const lower = key.toLowerCase();
+  return KEY_MAP[lower] || lower;
+}
+
 const TYPING_CHUNK_SIZE = 3;
 const TYPING_DELAY_MS = 100;
 
-export interface NativeComputerOptions extends ComputerOptions {}
+/** Recorded frames are shrunk to fit this box to bound memory use. */
+const RECORDING_FRAME_SIZE = { width: 960, height: 960 };
+
+export interface NativeComputerOptions extends ComputerOptions {
+  /**
+   * Id of the display to target initially (see {@link NativeComputer.listDisplays}).
+   * Defaults to the primary display.
+   */
+  display?: number;
+
+  /**
+   * Composite a pointer into screenshots, which the OS otherwise leaves out.
+   * Default `false`.
+   */
+  drawCursor?: boolean;
+}
+
+/** A display together with the monitor handle and coordinate space used to drive it. */
+interface ResolvedDisplay {
+  monitor: Monitor;
+  display: Display;
+  space: CoordinateSpace;
+}
 
 /**
  * Unified Computer implementation using robotjs and node-screenshots.
  * Works across MacOS, Windows, and Linux.
+ *
+ * Every monitor gets its own {@link CoordinateSpace}: `(0, 0)` is the
+ * top-left corner of the selected display and coordinates are scaled
+ * independently per display to fit `maxScalingDimension`. Before reaching
+ * robotjs they are translated into the OS virtual desktop by adding the
+ * display's origin.
+ *
+ * Prefer {@link NativeComputer.create}, which resolves the display layout and
+ * scaling before returning.
  */
 export class NativeComputer implements Computer {
-  private cachedDimensions: [number, number] | null = null;
   private lastMousePos: Point;
-  private targetWidth: number | null = null;
-  private targetHeight: number | null = null;
-  private scalingFactor: number = 1;
+  private readonly maxScalingDimension?: string;
+  private selectedDisplayId: number | null;
+  private readonly drawCursor: boolean;
+  private readonly held = new HeldInputs();
+  private recording: {
+    sampler: FrameSampler;
+    dir: string;
+    format: "webp" | "gif";
+  } | null = null;
 
   constructor(options: NativeComputerOptions = {}) {
     const pos = robot.getMousePos();
     this.lastMousePos = { x: pos.x, y: pos.y };
+    this.selectedDisplayId = options.display ?? null;
+    this.maxScalingDimension = options.maxScalingDimension;
+    this.drawCursor = options.drawCursor ?? false;
+  }
 
-    if (options.maxScalingDimension) {
-      const [w, h] = options.maxScalingDimension
-        .split("x")
-        .map((s) => parseInt(s, 10));
-      this.initializeScaling(w || null, h || null);
+  /** Create a computer whose displays and scaling are already resolved. */
+  static async create(
+    options: NativeComputerOptions = {},
+  ): Promise<NativeComputer> {
+    const computer = new NativeComputer(options);
+    await computer.initialize();
+    return computer;
+  }
+
+  private async initialize(): Promise<void> {
+    const { display, space } = this.resolveDisplay();
+    if (space.isScaled) {
+      console.error(
+        `Scaling enabled on display ${display.id}: ${space.realWidth}x${space.realHeight} -> ${space.scaledWidth}x${space.scaledHeight} (factor: ${space.scalingFactor.toFixed(4)})`,
+      );
     }
   }
 
-  private async initializeScaling(
-    maxW: number | null,
-    maxH: number | null,
-  ): Promise<void> {
-    const [realW, realH] = await this.getDimensions();
-    const ratio = realW / realH;
-
-    if (maxW && maxH) {
-      // Fit into both, preserving aspect ratio
-      const scaleW = maxW / realW;
-      const scaleH = maxH / realH;
-      const scale = Math.min(scaleW, scaleH);
-
-      if (scale < 1) {
-        this.scalingFactor = scale;
-        this.targetWidth = Math.round(realW * scale);
-        this.targetHeight = Math.round(realH * scale);
+  private resolveDisplays(): ResolvedDisplay[] {
+    return Monitor.all().map((monitor) => {
+      const space = new CoordinateSpace(monitor.width(), monitor.height(), {
+        maxScalingDimension: this.maxScalingDimension,
+      });
+      return {
+        monitor,
+        space,
+        display: {
+          id: monitor.id(),
+          name: monitor.name(),
+          isPrimary: monitor.isPrimary(),
+          x: monitor.x(),
+          y: monitor.y(),
+          width: space.realWidth,
+          height: space.realHeight,
+          scaledWidth: space.scaledWidth,
+          scaledHeight: space.scaledHeight,
+        },
+      };
+    });
+  }
+
+  /**
+   * Resolve the display with the given id, or the targeted one, falling back
+   * to the primary display.
+   */
+  private resolveDisplay(
+    id: number | null = this.selectedDisplayId,
+  ): ResolvedDisplay {
+    const all = this.resolveDisplays();
+
+    if (id !== null) {
+      const selected = all.find((d) => d.display.id === id);
+      if (!selected) {
+        const ids = all.map((d) => d.display.id).join(", ");
+        throw new Error(`Display ${id} not found (available: ${ids})`);
       }
-    } else if (maxW && maxW < realW) {
-      this.scalingFactor = maxW / realW;
-      this.targetWidth = maxW;
-      this.targetHeight = Math.round(maxW / ratio);
-    } else if (maxH && maxH < realH) {
-      this.scalingFactor = maxH / realH;
-      this.targetHeight = maxH;
-      this.targetWidth = Math.round(maxH * ratio);
+      return selected;
     }
 
-    if (this.targetWidth) {
-      console.log(
-        `Scaling enabled: ${realW}x${realH} -> ${this.targetWidth}x${this.targetHeight} (factor: ${this.scalingFactor.toFixed(4)})`,
-      );
-    }
+    const primary = all.find((d) => d.display.isPrimary) || all[0];
+    if (!primary) throw new Error("No monitor found");
+    return primary;
   }
 
   getEnvironment(): Environment {
@@ -127,21 +211,26 @@ export class NativeComputer implements Computer {
     }
   }
 
-  async getDimensions(): Promise<[number, number]> {
-    if (this.targetWidth && this.targetHeight) {
-      return [this.targetWidth, this.targetHeight];
-    }
+  async listDisplays(): Promise<Display[]> {
+    return this.resolveDisplays().map((d) => d.display);
+  }
+
+  async getDisplay(id?: number): Promise<Display> {
+    return this.resolveDisplay(id).display;
+  }
+
+  async selectDisplay(id: number): Promise<void> {
+    this.resolveDisplay(id);
+    this.selectedDisplayId = id;
+  }
 
-    if (this.cachedDimensions) return this.cachedDimensions;
+  async getDimensions(id?: number): Promise<[number, number]> {
+    // An unknown id is the caller's mistake, not a reason to fall back
+    if (id !== undefined) this.resolveDisplay(id);
 
     try {
-      const monitors = Monitor.all();
-      const primary =
-        monitors.find((m: Monitor) => m.isPrimary()) || monitors[0];
-      if (primary) {
-        this.cachedDimensions = [primary.width(), primary.height()];
-        return this.cachedDimensions;
-      }
+      const { display } = this.resolveDisplay(id);
+      return [display.scaledWidth, display.scaledHeight];
     } catch (error) {
       console.warn("Failed to get dimensions via node-screenshots:", error);
     }
@@ -149,60 +238,151 @@ export class NativeComputer implements Computer {
     // Fallback to robotjs
     try {
       const size = robot.getScreenSize();
-      this.cachedDimensions = [size.width, size.height];
-      return this.cachedDimensions;
+      const space = new CoordinateSpace(size.width, size.height, {
+        maxScalingDimension: this.maxScalingDimension,
+      });
+      return [space.scaledWidth, space.scaledHeight];
     } catch (error) {
       console.error("Failed to get dimensions via robotjs:", error);
       return [1280, 800];
     }
   }
 
-  async screenshot(): Promise<string> {
-    const monitors = Monitor.all();
-    const primary = monitors.find((m: Monitor) => m.isPrimary()) || monitors[0];
-    if (!primary) throw new Error("No monitor found");
-    const image = await primary.captureImage();
-    const pngBuf = await image.toPng();
+  async getCursorPosition(id?: number): Promise<Point> {
+    const { display, space } = this.resolveDisplay(id);
+    const pos = robot.getMousePos();
+    return space.toScaled({ x: pos.x - display.x, y: pos.y - display.y });
+  }
+
+  /**
+   * Draw the pointer onto a capture when enabled. `origin` is the top-left
+   * corner of the capture in real display-local pixels.
+   */
+  private async overlayCursor(
+    png: Buffer,
+    display: Display,
+    origin: Point,
+    pixelRatio: number,
+  ): Promise<Buffer> {
+    if (!this.drawCursor) return png;
+
+    const pos = robot.getMousePos();
+    return drawCursor(
+      png,
+      {
+        x: (pos.x - display.x - origin.x) * pixelRatio,
+        y: (pos.y - display.y - origin.y) * pixelRatio,
+      },
+      pixelRatio,
+    );
+  }
 
+  async screenshot(encoding?: ImageEncoding, id?: number): Promise<string> {
+    const { monitor, display } = this.resolveDisplay(id);
+    const image = await monitor.captureImage();
+    const pngBuf = await this.overlayCursor(
+      await image.toPng(),
+      display,
+      { x: 0, y: 0 },
+      image.width / display.width,
+    );
+
+    // Always resize to the display's coordinate space: this applies
+    // `maxScalingDimension` and undoes HiDPI captures in one step.
     const resize =
-      this.targetWidth && this.targetHeight
-        ? { width: this.targetWidth, height: this.targetHeight }
+      image.width !== display.scaledWidth ||
+      image.height !== display.scaledHeight
+        ? { width: display.scaledWidth, height: display.scaledHeight }
         : undefined;
 
-    const compressed = await compressImage(pngBuf, resize);
+    const compressed = await compressImage(pngBuf, resize, encoding);
     return compressed.toString("base64");
   }
 
-  async screenshotRegion(p1: Point, p2: Point): Promise<string> {
-    await this.isWithinBounds(p1.x, p1.y);
-    await this.isWithinBounds(p2.x, p2.y);
-    const realP1 = this.toRealCoordinate(p1);
-    const realP2 = this.toRealCoordinate(p2);
-
-    const monitors = Monitor.all();
-    const primary = monitors.find((m: Monitor) => m.isPrimary()) || monitors[0];
-    if (!primary) throw new Error("No monitor found");
+  /**
+   * Crop a region given in scaled coordinates from a full-resolution capture
+   * of the given display. `width` and `height` are in real pixels.
+   */
+  private async captureRegion(
+    p1: Point,
+    p2: Point,
+    id?: number,
+  ): Promise<{
+    png: Buffer;
+    width: number;
+    height: number;
+    space: CoordinateSpace;
+    pixelRatio: number;
+  }> {
+    const { monitor, display, space } = this.resolveDisplay(id);
+    space.assertWithinBounds(p1);
+    space.assertWithinBounds(p2);
+    const realP1 = space.toReal(p1);
+    const realP2 = space.toReal(p2);
 
     const xMin = Math.max(0, Math.min(realP1.x, realP2.x));
     const yMin = Math.max(0, Math.min(realP1.y, realP2.y));
-    const xMax = Math.min(primary.width(), Math.max(realP1.x, realP2.x));
-    const yMax = Math.min(primary.height(), Math.max(realP1.y, realP2.y));
+    const xMax = Math.min(display.width, Math.max(realP1.x, realP2.x));
+    const yMax = Math.min(display.height, Math.max(realP1.y, realP2.y));
 
     const w = Math.max(1, xMax - xMin);
     const h = Math.max(1, yMax - yMin);
 
-    const image = await primary.captureImage();
-    const cropped = await image.crop(xMin, yMin, w, h);
-    const pngBuf = await cropped.toPng();
+    // Captures can be larger than the logical display size on HiDPI screens
+    const image = await monitor.captureImage();
+    const pixelRatio = image.width / display.width;
+    const cropped = await image.crop(
+      Math.round(xMin * pixelRatio),
+      Math.round(yMin * pixelRatio),
+      Math.max(1, Math.round(w * pixelRatio)),
+      Math.max(1, Math.round(h * pixelRatio)),
+    );
+    const png = await this.overlayCursor(
+      await cropped.toPng(),
+      display,
+      { x: xMin, y: yMin },
+      pixelRatio,
+    );
+    return { png, width: w, height: h, space, pixelRatio };
+  }
+
+  async screenshotRegion(
+    p1: Point,
+    p2: Point,
+    encoding?: ImageEncoding,
+    display?: number,
+  ): Promise<string> {
+    const { png, width, height, space, pixelRatio } = await this.captureRegion(
+      p1,
+      p2,
+      display,
+    );
+
+    const resize =
+      space.isScaled || pixelRatio !== 1
+        ? {
+            width: Math.max(1, space.toScaledLength(width)),
+            height: Math.max(1, space.toScaledLength(height)),
+          }
+        : undefined;
 
-    const resize = this.targetWidth
-      ? {
-          width: Math.round(w * this.scalingFactor),
-          height: Math.round(h * this.scalingFactor),
-        }
-      : undefined;
+    const compressed = await compressImage(png, resize, encoding);
+    return compressed.toString("base64");
+  }
 
-    const compressed = await compressImage(pngBuf, resize);
+  async zoom(
+    p1: Point,
+    p2: Point,
+    size?: Size,
+    encoding?: ImageEncoding,
+    display?: number,
+  ): Promise<string> {
+    const { png } = await this.captureRegion(p1, p2, display);
+    const compressed = await compressImage(
+      png,
+      size && { ...size, enlarge: true },
+      encoding,
+    );
     return compressed.toString("base64");
   }
 
@@ -210,16 +390,30 @@ export class NativeComputer implements Computer {
     x: number,
     y: number,
     button: MouseButton = "left",
+    options: ClickOptions = {},
   ): Promise<void> {
-    await this.isWithinBounds(x, y);
-    await this.move(x, y);
-    robot.mouseClick(button);
+    await this.isWithinBounds(x, y, options.display);
+    await this.move(x, y, options.display);
+
+    const clicks = options.clicks ?? 1;
+    await this.withModifiers(options.modifiers, async () => {
+      if (clicks === 2) {
+        robot.mouseClick(button, true);
+        return;
+      }
+      for (let i = 0; i < clicks; i++) {
+        robot.mouseClick(button);
+      }
+    });
   }
 
-  async doubleClick(x: number, y: number): Promise<void> {
-    await this.isWithinBounds(x, y);
-    await this.move(x, y);
-    robot.mouseClick("left", true);
+  async doubleClick(
+    x: number,
+    y: number,
+    button: MouseButton = "left",
+    options: Pick<ClickOptions, "modifiers" | "display"> = {},
+  ): Promise<void> {
+    await this.click(x, y, button, { ...options, clicks: 2 });
   }
 
   async scroll(
@@ -227,9 +421,10 @@ export class NativeComputer implements Computer {
     y: number,
     scrollX: number,
     scrollY: number,
+    display?: number,
   ): Promise<void> {
-    await this.isWithinBounds(x, y);
-    await this.move(x, y);
+    await this.isWithinBounds(x, y, display);
+    await this.move(x, y, display);
     robot.scrollMouse(scrollX, scrollY);
   }
 
@@ -245,9 +440,11 @@ export class NativeComputer implements Computer {
     return new Promise((resolve) => setTimeout(resolve, ms));
   }
 
-  async move(x: number, y: number): Promise<void> {
-    await this.isWithinBounds(x, y);
-    const realTarget = this.toRealCoordinate({ x, y });
+  async move(x: number, y: number, id?: number): Promise<void> {
+    const { display, space } = this.resolveDisplay(id);
+    space.assertWithinBounds({ x, y });
+    const local = space.toReal({ x, y });
+    const realTarget = { x: display.x + local.x, y: display.y + local.y };
 
     const trajectory = generatePath(this.lastMousePos, realTarget);
 
@@ -257,20 +454,12 @@ export class NativeComputer implements Computer {
     this.lastMousePos = realTarget;
   }
 
-  private async isWithinBounds(x: number, y: number): Promise<void> {
-    const [width, height] = await this.getDimensions();
-    if (x < 0 || x > width || y < 0 || y > height) {
-      throw new Error(
-        `Coordinates (${x}, ${y}) are outside screen bounds (${width}x${height})`,
-      );
-    }
-  }
-
-  private toRealCoordinate(p: Point): Point {
-    return {
-      x: Math.round(p.x / this.scalingFactor),
-      y: Math.round(p.y / this.scalingFactor),
-    };
+  private async isWithinBounds(
+    x: number,
+    y: number,
+    display?: number,
+  ): Promise<void> {
+    this.resolveDisplay(display).space.assertWithinBounds({ x, y });
   }
 
   async keypress(keys: string[]): Promise<void> {
@@ -278,8 +467,7 @@ export class NativeComputer implements Computer {
     let mainKey: string | null = null;
 
     for (const k of keys) {
-      const lower = k.toLowerCase();
-      const mapped = KEY_MAP[lower] || lower;
+      const mapped = toRobotKey(k);
       if (["alt", "control", "shift", "command"].includes(mapped) && !mainKey) {
         modifiers.push(mapped);
       } else {
@@ -292,20 +480,156 @@ export class NativeComputer implements Computer {
     }
   }
 
-  async drag(path: Point[]): Promise<void> {
+  async drag(path: Point[], options: DragOptions = {}): Promise<void> {
     if (path.length < 2) return;
+    const button = options.button ?? "left";
 
     for (const pt of path) {
-      await this.isWithinBounds(pt.x, pt.y);
+      await this.isWithinBounds(pt.x, pt.y, options.display);
     }
 
-    await this.move(path[0].x, path[0].y);
-    robot.mouseToggle("down", "left");
+    await this.move(path[0].x, path[0].y, options.display);
+    await this.withModifiers(options.modifiers, async () => {
+      robot.mouseToggle("down", button);
+
+      for (const pt of path.slice(1)) {
+        await this.move(pt.x, pt.y, options.display);
+      }
+
+      robot.mouseToggle("up", button);
+    });
+  }
 
-    for (const pt of path.slice(1)) {
-      await this.move(pt.x, pt.y);
+  /**
+   * Hold the given modifiers while `fn` runs. Modifiers that are already
+   * held through {@link keyDown} are left untouched.
+   */
+  private async withModifiers(
+    modifiers: string[] = [],
+    fn: () => Promise<void>,
+  ): Promise<void> {
+    const alreadyHeld = this.held.heldKeys();
+    const pressed = modifiers
+      .map(toRobotKey)
+      .filter((key) => !alreadyHeld.includes(key));
+
+    for (const key of pressed) {
+      robot.keyToggle(key, "down");
+    }
+    try {
+      await fn();
+    } finally {
+      for (const key of [...pressed].reverse()) {
+        robot.keyToggle(key, "up");
+      }
     }
+  }
+
+  async mouseDown(button: MouseButton = "left"): Promise<void> {
+    robot.mouseToggle("down", button);
+    this.held.pressButton(button);
+  }
+
+  async mouseUp(button: MouseButton = "left"): Promise<void> {
+    robot.mouseToggle("up", button);
+    this.held.releaseButton(button);
+  }
+
+  async keyDown(key: string): Promise<void> {
+    const mapped = toRobotKey(key);
+    robot.keyToggle(mapped, "down");
+    this.held.pressKey(mapped);
+  }
+
+  async keyUp(key: string): Promise<void> {
+    const mapped = toRobotKey(key);
+    robot.keyToggle(mapped, "up");
+    this.held.releaseKey(mapped);
+  }
+
+  async getClipboard(): Promise<string> {
+    return readClipboard();
+  }
+
+  async setClipboard(text: string): Promise<void> {
+    await writeClipboard(text);
+  }
+
+  async pasteText(text: string): Promise<void> {
+    await writeClipboard(text);
+    const modifier = process.platform === "darwin" ? "command" : "control";
+    robot.keyTap("v", [modifier]);
+  }
+
+  getHeldInputs(): HeldInputState {
+    return { buttons: this.held.heldButtons(), keys: this.held.heldKeys() };
+  }
+
+  async releaseAll(): Promise<void> {
+    for (const key of this.held.heldKeys().reverse()) {
+      robot.keyToggle(key, "up");
+    }
+    for (const button of this.held.heldButtons()) {
+      robot.mouseToggle("up", button);
+    }
+    this.held.clear();
+  }
+
+  // ---- recording --------------------------------------------------------
+
+  /**
+   * Sample the selected display at `fps` into an animated WebP or GIF,
+   * written when the recording stops.
+   */
+  async startRecording(options: RecordingOptions = {}): Promise<void> {
+    if (this.recording) {
+      throw new Error("A recording is already in progress.");
+    }
+    const sampler = new FrameSampler(() => this.captureFrame(), {
+      fps: options.fps,
+    });
+    this.recording = {
+      sampler,
+      dir: options.dir ?? os.tmpdir(),
+      format: options.format ?? "webp",
+    };
+    sampler.start();
+  }
+
+  async stopRecording(): Promise<Recording> {
+    if (!this.recording) throw new Error("No recording is in progress.");
+    const { sampler, dir, format } = this.recording;
+    this.recording = null;
+
+    const sampled = await sampler.stop();
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    const file = path.join(dir, `recording-${stamp}.${format}`);
+    await mkdir(dir, { recursive: true });
+    await writeFile(file, await encodeAnimation(sampled, format));
+    return {
+      path: file,
+      mimeType: `image/${format}`,
+      durationMs: sampled.durationMs,
+    };
+  }
+
+  isRecording(): boolean {
+    return this.recording !== null;
+  }
 
-    robot.mouseToggle("up", "left");
+  /** One small JPEG frame of the selected display, pointer included. */
+  private async captureFrame(): Promise<Buffer> {
+    const { monitor, display } = this.resolveDisplay();
+    const image = await monitor.captureImage();
+    const png = await this.overlayCursor(
+      await image.toPng(),
+      display,
+      { x: 0, y: 0 },
+      image.width / display.width,
+    );
+    return compressImage(png, RECORDING_FRAME_SIZE, {
+      format: "jpeg",
+      quality: 70,
+    });
   }
 }
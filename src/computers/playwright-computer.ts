@@ -1,19 +1,42 @@
+import os from "node:os";
+import path from "node:path";
 import {
   chromium,
   type Browser,
   type BrowserContext,
   type Page,
+  type Video,
 } from "playwright";
 import { generatePath } from "../utils/mouse-path.js";
 import {
+  ClickOptions,
   Computer,
   ComputerOptions,
+  Display,
+  DragOptions,
   Environment,
+  HeldInputState,
+  ImageEncoding,
   MouseButton,
   Point,
+  Recording,
+  RecordingOptions,
+  Size,
 } from "./computer.js";
 import { installMouseHelper } from "../utils/mouse-helper.js";
 import { compressImage } from "../utils/compress-image.js";
+import { CoordinateSpace } from "../utils/coordinate-space.js";
+import { HeldInputs } from "../utils/held-inputs.js";
+import {
+  AccessibilityNode,
+  AccessibilitySnapshotOptions,
+  snapshotAccessibilityTree,
+} from "../utils/accessibility-tree.js";
+import {
+  drawMarks,
+  findInteractiveElements,
+  Mark,
+} from "../utils/set-of-marks.js";
 
 // ---------------------------------------------------------------------------
 // CUA / friendly key names → Playwright key identifiers
@@ -57,6 +80,10 @@ const KEY_MAP: Record<string, string> = {
   tab: "Tab",
 };
 
+function toPlaywrightKey(key: string): string {
+  return KEY_MAP[key.toLowerCase()] ?? key;
+}
+
 const TYPING_CHUNK_SIZE = 3;
 const TYPING_DELAY_MS = 100;
 
@@ -87,6 +114,14 @@ export interface PlaywrightComputerOptions extends ComputerOptions {
 
   /** Enable a virtual mouse cursor in the browser. Default `false`. */
   virtualCursor?: boolean;
+
+  /**
+   * Record the browser from launch into this directory, stopped by
+   * {@link PlaywrightComputer.stopRecording}. Unlike a later
+   * `startRecording`, this needs no new context, so nothing is lost when
+   * recording starts. Default: not recorded.
+   */
+  recordVideoDir?: string;
 }
 
 // ---------------------------------------------------------------------------
@@ -116,11 +151,20 @@ export class PlaywrightComputer implements Computer {
   private readonly width: number;
   private readonly height: number;
   private readonly virtualCursor: boolean;
+  private readonly recordVideoDir: string | undefined;
 
   private browser: Browser | null = null;
   private context: BrowserContext | null = null;
   private page: Page | null = null;
   private lastMousePos: Point = { x: 0, y: 0 };
+  private readonly space: CoordinateSpace;
+  private readonly held = new HeldInputs();
+  /**
+   * Element refs by mark number, from the last marked screenshot. Cleared
+   * when the active page navigates or another page becomes active.
+   */
+  private marks = new Map<number, string>();
+  private recording: { dir: string; startedAt: number } | null = null;
 
   constructor(options: PlaywrightComputerOptions = {}) {
     this.headless = options.headless ?? false;
@@ -129,6 +173,13 @@ export class PlaywrightComputer implements Computer {
     this.width = options.width ?? 1024;
     this.height = options.height ?? 768;
     this.virtualCursor = options.virtualCursor ?? false;
+    this.recordVideoDir = options.recordVideoDir;
+
+    // Playwright accepts fractional coordinates, so skip pixel rounding
+    this.space = new CoordinateSpace(this.width, this.height, {
+      maxScalingDimension: options.maxScalingDimension,
+      rounding: "none",
+    });
   }
 
   // ---- lifecycle --------------------------------------------------------
@@ -148,20 +199,11 @@ export class PlaywrightComputer implements Computer {
       ],
     });
 
-    this.context = await this.browser.newContext({
-      viewport: { width: this.width, height: this.height },
-    });
-
-    if (this.virtualCursor && this.context) {
-      await installMouseHelper(this.context);
+    await this.openContext(this.recordVideoDir);
+    if (this.recordVideoDir) {
+      this.recording = { dir: this.recordVideoDir, startedAt: Date.now() };
     }
 
-    // Track new pages (popups, target=_blank, etc.)
-    this.context.on("page", (newPage) => this.handleNewPage(newPage));
-
-    this.page = await this.context.newPage();
-    this.page.on("close", (closedPage) => this.handlePageClose(closedPage));
-
     if (this.startUrl !== "about:blank") {
       await this.page.goto(this.startUrl);
     }
@@ -170,6 +212,8 @@ export class PlaywrightComputer implements Computer {
   /** Shut down the browser. */
   async stop(): Promise<void> {
     if (this.browser) {
+      this.held.clear();
+      this.recording = null;
       await this.browser.close();
       this.browser = null;
       this.context = null;
@@ -177,11 +221,77 @@ export class PlaywrightComputer implements Computer {
     }
   }
 
+  /**
+   * Open a browser context with a first page, recording video into
+   * `recordVideoDir` if given.
+   */
+  private async openContext(
+    recordVideoDir?: string,
+    storageState?: Awaited<ReturnType<BrowserContext["storageState"]>>,
+  ): Promise<void> {
+    if (!this.browser) {
+      throw new Error("PlaywrightComputer: not started. Call start() first.");
+    }
+    const viewport = { width: this.width, height: this.height };
+    this.context = await this.browser.newContext({
+      viewport,
+      storageState,
+      recordVideo: recordVideoDir
+        ? { dir: recordVideoDir, size: viewport }
+        : undefined,
+    });
+    await this.context.grantPermissions(["clipboard-read", "clipboard-write"]);
+
+    if (this.virtualCursor) {
+      await installMouseHelper(this.context);
+    }
+
+    // Track new pages (popups, target=_blank, etc.)
+    this.context.on("page", (newPage) => this.handleNewPage(newPage));
+
+    this.page = await this.context.newPage();
+    this.watchPage(this.page);
+  }
+
+  /**
+   * Replace the context with a new one that keeps cookies and storage and
+   * reopens the current URL. Returns the video of the page that was active.
+   */
+  private async reopenContext(recordVideoDir?: string): Promise<Video | null> {
+    const context = this.context;
+    if (!context) {
+      throw new Error("PlaywrightComputer: not started. Call start() first.");
+    }
+    const url = this.page?.url();
+    const video = this.page?.video() ?? null;
+    const storageState = await context.storageState();
+
+    // Closing the context finishes writing its videos
+    this.held.clear();
+    this.marks.clear();
+    await context.close();
+    await this.openContext(recordVideoDir, storageState);
+    if (url && url !== "about:blank") {
+      await this.requirePage().goto(url);
+    }
+    return video;
+  }
+
   // ---- page tracking ----------------------------------------------------
 
+  private watchPage(page: Page): void {
+    page.on("close", (p) => this.handlePageClose(p));
+    page.on("framenavigated", (frame) => {
+      if (page === this.page && frame === page.mainFrame()) {
+        this.marks.clear();
+      }
+    });
+  }
+
   private handleNewPage(page: Page): void {
     this.page = page;
-    page.on("close", (p) => this.handlePageClose(p));
+    this.marks.clear();
+    this.watchPage(page);
   }
 
   private handlePageClose(closedPage: Page): void {
@@ -189,6 +299,7 @@ export class PlaywrightComputer implements Computer {
 
     const pages = this.context?.pages() ?? [];
     this.page = pages.length > 0 ? pages[pages.length - 1] : null;
+    this.marks.clear();
   }
 
   // ---- Computer interface -----------------------------------------------
@@ -206,30 +317,122 @@ export class PlaywrightComputer implements Computer {
     return "browser";
   }
 
-  async getDimensions(): Promise<[number, number]> {
-    return [this.width, this.height];
+  /** The browser viewport is exposed as a single display with id `0`. */
+  async listDisplays(): Promise<Display[]> {
+    return [await this.getDisplay()];
+  }
+
+  async getDisplay(display?: number): Promise<Display> {
+    const [scaledWidth, scaledHeight] = await this.getDimensions(display);
+    return {
+      id: 0,
+      name: "viewport",
+      isPrimary: true,
+      x: 0,
+      y: 0,
+      width: this.width,
+      height: this.height,
+      scaledWidth,
+      scaledHeight,
+    };
+  }
+
+  async selectDisplay(id: number): Promise<void> {
+    this.assertDisplay(id);
+  }
+
+  /** Reject display ids other than the viewport's. */
+  private assertDisplay(id = 0): void {
+    if (id !== 0) {
+      throw new Error(`Display ${id} not found (available: 0)`);
+    }
+  }
+
+  async getCursorPosition(display?: number): Promise<Point> {
+    this.assertDisplay(display);
+    return this.space.toScaled(this.lastMousePos);
+  }
+
+  async getDimensions(display?: number): Promise<[number, number]> {
+    this.assertDisplay(display);
+    return [this.space.scaledWidth, this.space.scaledHeight];
   }
 
-  async screenshot(): Promise<string> {
+  async screenshot(
+    encoding?: ImageEncoding,
+    display?: number,
+  ): Promise<string> {
+    this.assertDisplay(display);
     const page = this.requirePage();
     const buf = await page.screenshot();
-    const compressed = await compressImage(buf);
+
+    const resize = this.space.isScaled
+      ? { width: this.space.scaledWidth, height: this.space.scaledHeight }
+      : undefined;
+
+    const compressed = await compressImage(buf, resize, encoding);
     return compressed.toString("base64");
   }
 
-  async screenshotRegion(p1: Point, p2: Point): Promise<string> {
+  /**
+   * Capture a region given in scaled coordinates at viewport resolution.
+   * `width` and `height` are in CSS pixels.
+   */
+  private async captureRegion(
+    p1: Point,
+    p2: Point,
+    display?: number,
+  ): Promise<{ png: Buffer; width: number; height: number }> {
+    this.assertDisplay(display);
     this.isWithinBounds(p1.x, p1.y);
     this.isWithinBounds(p2.x, p2.y);
     const page = this.requirePage();
-    const xMin = Math.max(0, Math.min(p1.x, p2.x));
-    const yMin = Math.max(0, Math.min(p1.y, p2.y));
-    const width = Math.max(1, Math.abs(p1.x - p2.x));
-    const height = Math.max(1, Math.abs(p1.y - p2.y));
+    const realP1 = this.space.toReal(p1);
+    const realP2 = this.space.toReal(p2);
+
+    const xMin = Math.max(0, Math.min(realP1.x, realP2.x));
+    const yMin = Math.max(0, Math.min(realP1.y, realP2.y));
+    const width = Math.max(1, Math.abs(realP1.x - realP2.x));
+    const height = Math.max(1, Math.abs(realP1.y - realP2.y));
 
-    const buf = await page.screenshot({
+    const png = await page.screenshot({
       clip: { x: xMin, y: yMin, width, height },
     });
-    const compressed = await compressImage(buf);
+    return { png, width, height };
+  }
+
+  async screenshotRegion(
+    p1: Point,
+    p2: Point,
+    encoding?: ImageEncoding,
+    display?: number,
+  ): Promise<string> {
+    const { png, width, height } = await this.captureRegion(p1, p2, display);
+
+    const resize = this.space.isScaled
+      ? {
+          width: Math.max(1, Math.round(this.space.toScaledLength(width))),
+          height: Math.max(1, Math.round(this.space.toScaledLength(height))),
+        }
+      : undefined;
+
+    const compressed = await compressImage(png, resize, encoding);
+    return compressed.toString("base64");
+  }
+
+  async zoom(
+    p1: Point,
+    p2: Point,
+    size?: Size,
+    encoding?: ImageEncoding,
+    display?: number,
+  ): Promise<string> {
+    const { png } = await this.captureRegion(p1, p2, display);
+    const compressed = await compressImage(
+      png,
+      size && { ...size, enlarge: true },
+      encoding,
+    );
     return compressed.toString("base64");
   }
 
@@ -237,22 +440,37 @@ export class PlaywrightComputer implements Computer {
     x: number,
     y: number,
     button: MouseButton = "left",
+    options: ClickOptions = {},
   ): Promise<void> {
     const page = this.requirePage();
-    await this.move(x, y);
+    await this.move(x, y, options.display);
+    const real = this.space.toReal({ x, y });
 
     const mapping: Record<string, "left" | "right" | "middle"> = {
       left: "left",
       right: "right",
       middle: "middle",
     };
-    await page.mouse.click(x, y, { button: mapping[button] ?? "left" });
+    await this.withModifiers(options.modifiers, () =>
+      page.mouse.click(real.x, real.y, {
+        button: mapping[button] ?? "left",
+        clickCount: options.clicks ?? 1,
+      }),
+    );
   }
 
-  async doubleClick(x: number, y: number): Promise<void> {
+  async doubleClick(
+    x: number,
+    y: number,
+    button: MouseButton = "left",
+    options: Pick<ClickOptions, "modifiers" | "display"> = {},
+  ): Promise<void> {
     const page = this.requirePage();
-    await this.move(x, y);
-    await page.mouse.dblclick(x, y);
+    await this.move(x, y, options.display);
+    const real = this.space.toReal({ x, y });
+    await this.withModifiers(options.modifiers, () =>
+      page.mouse.dblclick(real.x, real.y, { button }),
+    );
   }
 
   async scroll(
@@ -260,10 +478,11 @@ export class PlaywrightComputer implements Computer {
     y: number,
     scrollX: number,
     scrollY: number,
+    display?: number,
   ): Promise<void> {
     this.isWithinBounds(x, y);
     const page = this.requirePage();
-    await this.move(x, y);
+    await this.move(x, y, display);
     // Playwright's mouse.wheel is usually more reliable for "computer use"
     // than page.evaluate(() => window.scrollBy)
     await page.mouse.wheel(scrollX, scrollY);
@@ -282,10 +501,11 @@ export class PlaywrightComputer implements Computer {
     return new Promise((resolve) => setTimeout(resolve, ms));
   }
 
-  async move(x: number, y: number): Promise<void> {
+  async move(x: number, y: number, display?: number): Promise<void> {
+    this.assertDisplay(display);
     this.isWithinBounds(x, y);
     const page = this.requirePage();
-    const target = { x, y };
+    const target = this.space.toReal({ x, y });
     const trajectory = generatePath(this.lastMousePos, target);
 
     for (const point of trajectory) {
@@ -295,16 +515,12 @@ export class PlaywrightComputer implements Computer {
   }
 
   private isWithinBounds(x: number, y: number): void {
-    if (x < 0 || x > this.width || y < 0 || y > this.height) {
-      throw new Error(
-        `Coordinates (${x}, ${y}) are outside viewport bounds (${this.width}x${this.height})`,
-      );
-    }
+    this.space.assertWithinBounds({ x, y }, "viewport");
   }
 
   async keypress(keys: string[]): Promise<void> {
     const page = this.requirePage();
-    const mapped = keys.map((k) => KEY_MAP[k.toLowerCase()] ?? k);
+    const mapped = keys.map(toPlaywrightKey);
 
     // Press all keys down, then release in reverse order
     for (const key of mapped) {
@@ -316,26 +532,214 @@ export class PlaywrightComputer implements Computer {
     }
   }
 
-  async drag(path: Point[]): Promise<void> {
+  async drag(path: Point[], options: DragOptions = {}): Promise<void> {
     if (path.length === 0) return;
     for (const pt of path) {
       this.isWithinBounds(pt.x, pt.y);
     }
 
     const page = this.requirePage();
+    const button = options.button ?? "left";
+
+    await this.move(path[0].x, path[0].y, options.display);
+    await this.withModifiers(options.modifiers, async () => {
+      await page.mouse.down({ button });
+      for (const { x, y } of path.slice(1)) {
+        await this.move(x, y, options.display);
+      }
+      await page.mouse.up({ button });
+    });
+  }
 
-    await this.move(path[0].x, path[0].y);
-    await page.mouse.down();
-    for (const { x, y } of path.slice(1)) {
-      await this.move(x, y);
+  /**
+   * Hold the given modifiers while `fn` runs. Playwright applies the
+   * keyboard's modifier state to mouse events. Modifiers that are already
+   * held through {@link keyDown} are left untouched.
+   */
+  private async withModifiers(
+    modifiers: string[] = [],
+    fn: () => Promise<void>,
+  ): Promise<void> {
+    const page = this.requirePage();
+    const alreadyHeld = this.held.heldKeys();
+    const pressed = modifiers
+      .map(toPlaywrightKey)
+      .filter((key) => !alreadyHeld.includes(key));
+
+    for (const key of pressed) {
+      await page.keyboard.down(key);
+    }
+    try {
+      await fn();
+    } finally {
+      for (const key of [...pressed].reverse()) {
+        await page.keyboard.up(key);
+      }
     }
-    await page.mouse.up();
+  }
+
+  async mouseDown(button: MouseButton = "left"): Promise<void> {
+    const page = this.requirePage();
+    await page.mouse.down({ button });
+    this.held.pressButton(button);
+  }
+
+  async mouseUp(button: MouseButton = "left"): Promise<void> {
+    const page = this.requirePage();
+    await page.mouse.up({ button });
+    this.held.releaseButton(button);
+  }
+
+  async keyDown(key: string): Promise<void> {
+    const page = this.requirePage();
+    const mapped = toPlaywrightKey(key);
+    await page.keyboard.down(mapped);
+    this.held.pressKey(mapped);
+  }
+
+  async keyUp(key: string): Promise<void> {
+    const page = this.requirePage();
+    const mapped = toPlaywrightKey(key);
+    await page.keyboard.up(mapped);
+    this.held.releaseKey(mapped);
+  }
+
+  /** Read the page clipboard via `navigator.clipboard`. */
+  async getClipboard(): Promise<string> {
+    const page = this.requirePage();
+    return page.evaluate(() => navigator.clipboard.readText());
+  }
+
+  /** Write the page clipboard via `navigator.clipboard`. */
+  async setClipboard(text: string): Promise<void> {
+    const page = this.requirePage();
+    await page.evaluate((t) => navigator.clipboard.writeText(t), text);
+  }
+
+  async pasteText(text: string): Promise<void> {
+    const page = this.requirePage();
+    await this.setClipboard(text);
+    await page.keyboard.press("ControlOrMeta+V");
+  }
+
+  getHeldInputs(): HeldInputState {
+    return { buttons: this.held.heldButtons(), keys: this.held.heldKeys() };
+  }
+
+  async releaseAll(): Promise<void> {
+    const page = this.page;
+    if (page) {
+      for (const key of this.held.heldKeys().reverse()) {
+        await page.keyboard.up(key);
+      }
+      for (const button of this.held.heldButtons()) {
+        await page.mouse.up({ button });
+      }
+    }
+    this.held.clear();
   }
 
   async getCurrentUrl(): Promise<string | null> {
     return this.page?.url() ?? null;
   }
 
+  /**
+   * Snapshot the active page's accessibility tree, with bounding boxes in
+   * the same scaled coordinate space as screenshots and clicks.
+   */
+  async getAccessibilityTree(
+    options: AccessibilitySnapshotOptions = {},
+  ): Promise<AccessibilityNode[]> {
+    const page = this.requirePage();
+    const nodes = await snapshotAccessibilityTree(page, options);
+
+    const scale = (node: AccessibilityNode): AccessibilityNode => {
+      const { x, y } = this.space.toScaled(node.bounds);
+      return {
+        ...node,
+        bounds: {
+          x,
+          y,
+          width: this.space.toScaledLength(node.bounds.width),
+          height: this.space.toScaledLength(node.bounds.height),
+        },
+        children: node.children?.map(scale),
+      };
+    };
+    return nodes.map(scale);
+  }
+
+  /**
+   * Take a screenshot with every interactive element in the viewport boxed
+   * and numbered. The marks stay clickable with {@link clickMark} until the
+   * next call or until the page navigates.
+   */
+  async screenshotWithMarks(
+    encoding?: ImageEncoding,
+  ): Promise<{ image: string; marks: Mark[] }> {
+    const page = this.requirePage();
+    const elements = await findInteractiveElements(page);
+
+    const marks = elements.map((el, i): Mark => {
+      const { x, y } = this.space.toScaled(el.bounds);
+      const width = this.space.toScaledLength(el.bounds.width);
+      const height = this.space.toScaledLength(el.bounds.height);
+      return {
+        ...el,
+        mark: i + 1,
+        bounds: { x, y, width, height },
+        center: { x: x + width / 2, y: y + height / 2 },
+      };
+    });
+    this.marks = new Map(marks.map((m) => [m.mark, m.ref]));
+
+    const base = Buffer.from(await this.screenshot(), "base64");
+    const image = await compressImage(
+      await drawMarks(base, marks),
+      undefined,
+      encoding,
+    );
+    return { image: image.toString("base64"), marks };
+  }
+
+  /**
+   * Click the centre of a mark from the last {@link screenshotWithMarks},
+   * wherever its element is now.
+   */
+  async clickMark(
+    mark: number,
+    button: MouseButton = "left",
+    options: ClickOptions = {},
+  ): Promise<void> {
+    const center = await this.markCenter(mark);
+    await this.click(center.x, center.y, button, options);
+  }
+
+  /** Current centre of a marked element, in scaled coordinates. */
+  async markCenter(mark: number): Promise<Point> {
+    const ref = this.marks.get(mark);
+    if (!ref) {
+      throw new Error(
+        `Unknown mark ${mark}. Take a screenshot_with_marks first and use one of its numbers.`,
+      );
+    }
+
+    const page = this.requirePage();
+    const box = await page
+      .locator(`[data-computermate-ref="${ref}"]`)
+      .boundingBox();
+    if (!box) {
+      throw new Error(
+        `Mark ${mark} is no longer on the page. Take a new screenshot_with_marks.`,
+      );
+    }
+
+    return this.space.toScaled({
+      x: box.x + box.width / 2,
+      y: box.y + box.height / 2,
+    });
+  }
+
   // ---- extra browser actions --------------------------------------------
 
   /** Navigate to a URL. */
@@ -359,4 +763,48 @@ export class PlaywrightComputer implements Computer {
     const page = this.requirePage();
     await page.goForward();
   }
+
+  // ---- recording --------------------------------------------------------
+
+  /**
+   * Record the browser with Playwright's context video. Video can only be
+   * enabled when a context is created, so starting and stopping a recording
+   * reopens the current page in a fresh context. Cookies and localStorage
+   * are kept; other tabs, history, sessionStorage and form input are lost.
+   * Use `recordVideoDir` to record from launch instead.
+   */
+  async startRecording(options: RecordingOptions = {}): Promise<void> {
+    if (this.recording) {
+      throw new Error("A recording is already in progress.");
+    }
+    const dir = options.dir ?? os.tmpdir();
+    await this.reopenContext(dir);
+    this.recording = { dir, startedAt: Date.now() };
+  }
+
+  /**
+   * Stop recording and save the active page's video. The video is only
+   * written once its context closes, so this reopens the current page too.
+   */
+  async stopRecording(): Promise<Recording> {
+    if (!this.recording) throw new Error("No recording is in progress.");
+    const { dir, startedAt } = this.recording;
+    this.recording = null;
+
+    const video = await this.reopenContext();
+    if (!video) throw new Error("The browser recorded no video.");
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    const file = path.join(dir, `recording-${stamp}.webm`);
+    await video.saveAs(file);
+    await video.delete();
+    return {
+      path: file,
+      mimeType: "video/webm",
+      durationMs: Date.now() - startedAt,
+    };
+  }
+
+  isRecording(): boolean {
+    return this.recording !== null;
+  }
 }
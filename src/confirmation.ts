@@ -0,0 +1,182 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import sharp from "sharp";
+
+import type { Computer } from "./computers/computer.js";
+import { PlaywrightComputer } from "./computers/playwright-computer.js";
+import type { ToolCallExtra, ToolMiddleware } from "./middleware.js";
+import {
+  checkConfirmation,
+  ConfirmationRequest,
+  hostOf,
+  Policy,
+  PolicyComputer,
+  TargetPoint,
+} from "./policy.js";
+import { imageMimeType } from "./utils/compress-image.js";
+
+/**
+ * `_meta` key of the screenshot sent along with a confirmation request, an
+ * MCP image content block with the targeted points circled in red.
+ */
+export const CONFIRMATION_SCREENSHOT_META = "computermate/screenshot";
+
+const DEFAULT_TIMEOUT_MS = 60_000;
+
+/** What the confirmation step reads from the computer. */
+export type ConfirmationComputer = PolicyComputer &
+  Pick<Computer, "screenshot">;
+
+/**
+ * Hosts visited per computer, so every server of a session (HTTP creates one
+ * per request) agrees on what counts as a new domain.
+ */
+const visitedHosts = new WeakMap<ConfirmationComputer, Set<string>>();
+
+/**
+ * Middleware that asks the user to approve calls matching the `confirm`
+ * rules of `policy`, through an MCP elicitation request. A call only runs
+ * once accepted; declining, no answer before the timeout and clients without
+ * elicitation support all deny it.
+ */
+export function confirmationMiddleware(
+  policy: Policy,
+  computer: ConfirmationComputer,
+  server: McpServer,
+): ToolMiddleware {
+  return async (tool, args, next, extra) => {
+    const hosts = await knownHosts(computer);
+    const request = await checkConfirmation(
+      policy,
+      computer,
+      tool,
+      args,
+      hosts,
+    );
+
+    if (request) {
+      const denied = await askUser(
+        server,
+        computer,
+        tool,
+        args,
+        request,
+        policy.confirm?.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+        extra,
+      );
+      if (denied) {
+        console.error(`Confirmation denied for ${tool}: ${denied}`);
+        throw new Error(`Not confirmed: ${denied}`);
+      }
+    }
+
+    if (tool === "goto" && typeof args.url === "string") {
+      const host = hostOf(args.url);
+      if (host) hosts.add(host);
+    }
+    return next();
+  };
+}
+
+/** Hosts visited so far, including the one currently open. */
+async function knownHosts(
+  computer: ConfirmationComputer,
+): Promise<Set<string>> {
+  let hosts = visitedHosts.get(computer);
+  if (!hosts) {
+    hosts = new Set();
+    visitedHosts.set(computer, hosts);
+  }
+  if (computer instanceof PlaywrightComputer) {
+    const url = await computer.getCurrentUrl();
+    const host = url ? hostOf(url) : null;
+    if (host) hosts.add(host);
+  }
+  return hosts;
+}
+
+/** Ask for approval. Returns why the call was denied, or `null` if approved. */
+async function askUser(
+  server: McpServer,
+  computer: ConfirmationComputer,
+  tool: string,
+  args: Record<string, unknown>,
+  request: ConfirmationRequest,
+  timeoutMs: number,
+  extra: ToolCallExtra,
+): Promise<string | null> {
+  const message = [
+    `Allow ${tool} ${JSON.stringify(args)}?`,
+    ...request.reasons.map((reason) => `- ${reason}`),
+  ].join("\n");
+
+  // The screenshot is a courtesy: the question is still asked without it
+  const screenshot = await annotatedScreenshot(computer, request.points).catch(
+    () => undefined,
+  );
+
+  try {
+    const result = await server.server.elicitInput(
+      {
+        mode: "form",
+        message,
+        requestedSchema: { type: "object", properties: {} },
+        ...(screenshot && {
+          _meta: {
+            [CONFIRMATION_SCREENSHOT_META]: {
+              type: "image",
+              data: screenshot.toString("base64"),
+              mimeType: imageMimeType(screenshot),
+            },
+          },
+        }),
+      },
+      {
+        relatedRequestId: extra.requestId,
+        signal: extra.signal,
+        timeout: timeoutMs,
+      },
+    );
+    if (result.action === "accept") return null;
+    return `the user ${result.action === "decline" ? "declined" : "cancelled"} ${tool}.`;
+  } catch (err) {
+    if (err instanceof McpError && err.code === ErrorCode.RequestTimeout) {
+      return `no answer within ${timeoutMs / 1000} s.`;
+    }
+    return `could not ask for confirmation: ${err instanceof Error ? err.message : err}`;
+  }
+}
+
+/**
+ * Screenshot of the display the call targets, with its points circled in
+ * red. A batch spanning displays shows the first one it touches.
+ */
+async function annotatedScreenshot(
+  computer: ConfirmationComputer,
+  targets: TargetPoint[],
+): Promise<Buffer> {
+  const display = targets[0]?.display;
+  const points = targets.filter((point) => point.display === display);
+  const image = Buffer.from(
+    await computer.screenshot(undefined, display),
+    "base64",
+  );
+  const { width, height } = await sharp(image).metadata();
+  if (!width || !height || points.length === 0) return image;
+
+  const marks = points.map(
+    ({ x, y }) =>
+      `<circle cx="${x}" cy="${y}" r="14"/>` +
+      `<path d="M${x - 22},${y} H${x + 22} M${x},${y - 22} V${y + 22}"/>`,
+  );
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+  <g fill="none" stroke="#ff0000" stroke-width="3">
+    ${marks.join("\n    ")}
+  </g>
+</svg>`;
+
+  return sharp(image)
+    .composite([{ input: Buffer.from(svg), top: 0, left: 0 }])
+    .png()
+    .toBuffer();
+}
@@ -3,7 +3,14 @@ import express from "express";
 import type { Request, Response } from "express";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
-import { createComputer, registerTools } from "./server.js";
+import {
+  createComputer,
+  flushTrace,
+  registerTools,
+  startSessionRecording,
+  stopSessionRecording,
+  toolOptionsFromEnv,
+} from "./server.js";
 
 // ---------------------------------------------------------------------------
 // Configuration
@@ -12,16 +19,31 @@ import { createComputer, registerTools } from "./server.js";
 const COMPUTER_TYPE = (process.env.COMPUTER_TYPE as any) || "native";
 const MAX_SCALING_DIMENSION = process.env.MAX_SCALING_DIMENSION;
 const PORT = parseInt(process.env.PORT ?? "3000", 10);
+const TOOL_OPTIONS = toolOptionsFromEnv();
+
+// Every request gets its own server, so the answer to an elicitation never
+// reaches the server that asked and every confirmation would time out
+if (TOOL_OPTIONS.policy?.confirm) {
+  console.error(
+    "The policy's confirm rules need a stateful connection and are not supported over HTTP; use the stdio server.",
+  );
+  process.exit(1);
+}
 
 // Share the computer instance - it's a wrapper for system calls and doesn't hold per-request state
-const computer = createComputer(COMPUTER_TYPE, MAX_SCALING_DIMENSION);
+const computer = await createComputer(
+  COMPUTER_TYPE,
+  MAX_SCALING_DIMENSION,
+  TOOL_OPTIONS,
+);
+await startSessionRecording(computer, TOOL_OPTIONS);
 
 function getMcpServer() {
   const server = new McpServer({
     name: "computermate",
     version: "0.3.0",
   });
-  registerTools(server, computer);
+  registerTools(server, computer, TOOL_OPTIONS);
   return server;
 }
 
@@ -59,7 +81,18 @@ const httpServer = app.listen(PORT, () => {
   console.log(`computermate MCP server (HTTP) listening on port ${PORT}`);
 });
 
-process.on("SIGINT", () => {
+// Requests are stateless, so held inputs live until the process ends.
+// `docker stop` sends SIGTERM, so both signals save the recording and trace.
+let shuttingDown = false;
+const shutdown = async () => {
+  if (shuttingDown) return;
+  shuttingDown = true;
+  await computer.releaseAll();
+  await stopSessionRecording(computer);
+  await flushTrace(computer);
   httpServer.close();
   process.exit(0);
-});
+};
+
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
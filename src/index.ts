@@ -1,41 +1,139 @@
 #!/usr/bin/env node
 
+import { parseArgs } from "node:util";
+
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { PlaywrightComputer } from "./computers/playwright-computer.js";
 import {
   ComputerType,
   createComputer,
+  flushTrace,
   registerTools,
   registerPlaywrightTools,
+  startSessionRecording,
+  stopSessionRecording,
+  toolOptionsFromEnv,
 } from "./server.js";
+import { formatReplayReport, replayTrace } from "./replay.js";
+import { readTrace } from "./utils/trace-recorder.js";
 import pkg from "../package.json" with { type: "json" };
 
 // ---------------------------------------------------------------------------
 // CLI argument parsing
 // ---------------------------------------------------------------------------
 
-const VALID_TYPES: ComputerType[] = ["playwright", "native"];
+const VALID_TYPES: ComputerType[] = ["playwright", "native", "mock"];
 
-function parseArgs(): ComputerType {
-  const arg = process.argv[2];
-  if (!arg || !VALID_TYPES.includes(arg as ComputerType)) {
-    console.error(
-      `Usage: computermate <${VALID_TYPES.join(" | ")}>\n` +
-        `  e.g. computermate native`,
-    );
-    process.exit(1);
-  }
+const USAGE =
+  `Usage: computermate <${VALID_TYPES.join(" | ")}>\n` +
+  `       computermate replay <trace.jsonl> [--backend <${VALID_TYPES.join(" | ")}>]\n` +
+  `         [--speed <n>] [--threshold <0-1>] [--no-stop]\n` +
+  `  e.g. computermate native`;
+
+function usage(): never {
+  console.error(USAGE);
+  process.exit(1);
+}
+
+function parseComputerType(arg: string | undefined): ComputerType {
+  if (!arg || !VALID_TYPES.includes(arg as ComputerType)) usage();
   return arg as ComputerType;
 }
 
+function parseNumber(
+  value: string | undefined,
+  max = Infinity,
+): number | undefined {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (Number.isNaN(n) || n < 0 || n > max) usage();
+  return n;
+}
+
+// ---------------------------------------------------------------------------
+// Replay
+// ---------------------------------------------------------------------------
+
+/**
+ * `computermate replay <trace>`: re-run a recorded trace and exit non-zero
+ * if any step failed or diverged from the recording.
+ */
+async function replay(argv: string[]): Promise<void> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        backend: { type: "string" },
+        speed: { type: "string" },
+        threshold: { type: "string" },
+        "no-stop": { type: "boolean" },
+      },
+    });
+  } catch {
+    usage();
+  }
+  const { values, positionals } = parsed;
+  const trace = positionals[0] ?? usage();
+
+  const speed = parseNumber(values.speed);
+  const threshold = parseNumber(values.threshold, 1);
+
+  // Default to the backend the trace was recorded with. Traces from before
+  // the backend was recorded only tell browser from desktop.
+  const { session } = await readTrace(trace);
+  const type = parseComputerType(
+    values.backend ??
+      session.backend ??
+      (session.environment === "browser" ? "playwright" : "native"),
+  );
+
+  const computer = await createComputer(
+    type,
+    process.env.MAX_SCALING_DIMENSION,
+  );
+  if (computer instanceof PlaywrightComputer) {
+    await computer.start();
+  }
+
+  try {
+    const report = await replayTrace(trace, computer, {
+      speed,
+      threshold,
+      stopOnDivergence: !values["no-stop"],
+      toolOptions: toolOptionsFromEnv(),
+      onStep: (step) =>
+        console.log(`#${step.seq} ${step.tool}: ${step.status}`),
+    });
+    console.log(formatReplayReport(report));
+    process.exitCode = report.steps.every((s) => s.status === "ok") ? 0 : 1;
+  } finally {
+    await computer.releaseAll();
+    if (computer instanceof PlaywrightComputer) {
+      await computer.stop();
+    }
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Main
 // ---------------------------------------------------------------------------
 
 async function main(): Promise<void> {
-  const type = parseArgs();
-  const computer = createComputer(type, process.env.MAX_SCALING_DIMENSION);
+  if (process.argv[2] === "replay") {
+    await replay(process.argv.slice(3));
+    process.exit();
+  }
+
+  const type = parseComputerType(process.argv[2]);
+  const toolOptions = toolOptionsFromEnv();
+  const computer = await createComputer(
+    type,
+    process.env.MAX_SCALING_DIMENSION,
+    toolOptions,
+  );
 
   const server = new McpServer({
     name: pkg.name,
@@ -43,20 +141,28 @@ async function main(): Promise<void> {
   });
 
   // Register core tools
-  registerTools(server, computer);
+  registerTools(server, computer, toolOptions);
 
   // Register extra browser tools for Playwright
   if (computer instanceof PlaywrightComputer) {
     await computer.start();
-    registerPlaywrightTools(server, computer);
+    registerPlaywrightTools(server, computer, toolOptions);
   }
+  await startSessionRecording(computer, toolOptions);
 
   // Connect via stdio
   const transport = new StdioServerTransport();
   await server.connect(transport);
 
-  // Graceful shutdown
+  // Graceful shutdown. Held inputs are released first so a disconnecting
+  // client never leaves a key or button stuck down.
+  let shuttingDown = false;
   const shutdown = async () => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    await computer.releaseAll();
+    await stopSessionRecording(computer);
+    await flushTrace(computer);
     if (computer instanceof PlaywrightComputer) {
       await computer.stop();
     }
@@ -64,6 +170,7 @@ async function main(): Promise<void> {
     process.exit(0);
   };
 
+  server.server.onclose = shutdown;
   process.on("SIGINT", shutdown);
   process.on("SIGTERM", shutdown);
 }
@@ -1,21 +1,94 @@
 // Core interface & types
 export {
+  ClickOptions,
   Computer,
+  Display,
+  DragOptions,
   Environment,
+  HeldInputState,
+  ImageEncoding,
+  ImageFormat,
   MouseButton,
   Point,
+  Recording,
+  RecordingOptions,
+  Rect,
+  Size,
 } from "./computers/computer.js";
 
 // Platform implementations
-export { NativeComputer } from "./computers/native-computer.js";
+export {
+  NativeComputer,
+  NativeComputerOptions,
+} from "./computers/native-computer.js";
 export {
   PlaywrightComputer,
   PlaywrightComputerOptions,
 } from "./computers/playwright-computer.js";
+export {
+  DEFAULT_MOCK_SCENE,
+  loadMockScene,
+  MockCall,
+  MockComputer,
+  MockComputerOptions,
+  MockElement,
+  MockScene,
+  mockSceneSchema,
+} from "./computers/mock-computer.js";
+export {
+  AccessibilityNode,
+  AccessibilitySnapshotOptions,
+} from "./utils/accessibility-tree.js";
+export { InteractiveElement, Mark } from "./utils/set-of-marks.js";
+export {
+  TraceCall,
+  TraceContent,
+  TraceLine,
+  TraceSession,
+} from "./utils/trace-recorder.js";
+export {
+  BudgetExceeded,
+  BudgetLimits,
+  BudgetLine,
+  BudgetName,
+  BudgetStatus,
+} from "./utils/action-budget.js";
+
+// Coordinate mapping shared by all implementations
+export {
+  CoordinateSpace,
+  CoordinateSpaceOptions,
+  RoundingPolicy,
+  parseScalingDimension,
+} from "./utils/coordinate-space.js";
 
 export {
   ComputerType,
   createComputer,
+  flushTrace,
   registerTools,
   registerPlaywrightTools,
+  startSessionRecording,
+  stopSessionRecording,
+  ToolOptions,
+  toolOptionsFromEnv,
 } from "./server.js";
+
+export {
+  formatReplayReport,
+  ReplayOptions,
+  ReplayReport,
+  ReplayStep,
+  replayTrace,
+} from "./replay.js";
+
+export {
+  checkConfirmation,
+  checkPolicy,
+  ConfirmationRequest,
+  loadPolicy,
+  Policy,
+  policySchema,
+} from "./policy.js";
+
+export { CONFIRMATION_SCREENSHOT_META } from "./confirmation.js";
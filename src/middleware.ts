@@ -0,0 +1,91 @@
+import type {
+  McpServer,
+  ToolCallback,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import type {
+  AnySchema,
+  ZodRawShapeCompat,
+} from "@modelcontextprotocol/sdk/server/zod-compat.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type {
+  CallToolResult,
+  ServerNotification,
+  ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+
+/** Context of the request a tool call came in on. */
+export type ToolCallExtra = RequestHandlerExtra<
+  ServerRequest,
+  ServerNotification
+>;
+
+/**
+ * Code run around every tool call, e.g. to record it. Call `next` to run the
+ * tool; throw to fail the call instead. `extra` is needed to send requests
+ * back to the client in the context of the call.
+ */
+export type ToolMiddleware = (
+  tool: string,
+  args: Record<string, unknown>,
+  next: () => Promise<CallToolResult>,
+  extra: ToolCallExtra,
+) => Promise<CallToolResult>;
+
+/** Input schema of a tool, as `registerTool` accepts it. */
+type InputArgs = undefined | ZodRawShapeCompat | AnySchema;
+
+/** A tool handler with its parameters erased. */
+type Handler = (...params: unknown[]) => Promise<CallToolResult>;
+
+/**
+ * Wrap `handler` of tool `name` in `middleware`, first entry outermost. The
+ * result has the handler's own type.
+ */
+function wrapHandler<Args extends InputArgs>(
+  name: string,
+  inputSchema: Args | undefined,
+  handler: ToolCallback<Args>,
+  middleware: ToolMiddleware[],
+): ToolCallback<Args> {
+  // The SDK types the parameters by a conditional on `Args`; the two shapes
+  // it can take are handled below.
+  const call = handler as Handler;
+  const run = (
+    args: Record<string, unknown>,
+    extra: ToolCallExtra,
+    next: () => Promise<CallToolResult>,
+  ) =>
+    middleware.reduceRight<() => Promise<CallToolResult>>(
+      (inner, wrap) => () => wrap(name, args, inner, extra),
+      next,
+    )();
+
+  // Tools without an input schema are called with `extra` only
+  const wrapped: Handler = inputSchema
+    ? async (args, extra) =>
+        run(args as Record<string, unknown>, extra as ToolCallExtra, async () =>
+          call(args, extra),
+        )
+    : async (extra) => run({}, extra as ToolCallExtra, async () => call(extra));
+  return wrapped as ToolCallback<Args>;
+}
+
+/**
+ * A view of `server` whose `registerTool` wraps each handler in `middleware`,
+ * first entry outermost. Everything else is delegated to `server`.
+ */
+export function withMiddleware(
+  server: McpServer,
+  middleware: ToolMiddleware[],
+): McpServer {
+  if (middleware.length === 0) return server;
+
+  const view = Object.create(server) as McpServer;
+  view.registerTool = (name, config, handler) =>
+    server.registerTool(
+      name,
+      config,
+      wrapHandler(name, config.inputSchema, handler, middleware),
+    );
+  return view;
+}
@@ -0,0 +1,440 @@
+import { readFileSync } from "node:fs";
+import { z } from "zod";
+
+import type { Computer, Point } from "./computers/computer.js";
+import { PlaywrightComputer } from "./computers/playwright-computer.js";
+import type { ToolMiddleware } from "./middleware.js";
+
+/**
+ * Declarative safety policy, checked before every tool call. A call that
+ * breaks a rule fails with a "Blocked by policy" error and is logged on
+ * stderr; it never reaches the computer. Calls matching a `confirm` rule
+ * only run once a human approves them (see `confirmation.ts`).
+ *
+ * ```json
+ * {
+ *   "tools": { "clipboard_get": false },
+ *   "forbiddenRegions": [{ "name": "taskbar", "x": 0, "y": 740, "width": 1024, "height": 28 }],
+ *   "blockedKeys": ["ctrl+alt+delete", "super+l"],
+ *   "maxTypeLength": 500,
+ *   "urls": { "allow": ["https://*.example.com/*"], "deny": ["*.internal/admin*"] },
+ *   "confirm": { "keys": ["enter"], "newDomains": true, "timeoutMs": 60000 }
+ * }
+ * ```
+ */
+
+const regionSchema = z.object({
+  name: z.string().optional(),
+  x: z.number(),
+  y: z.number(),
+  width: z.number().positive(),
+  height: z.number().positive(),
+
+  /** Display the region is on. Default: every display. */
+  display: z.number().int().optional(),
+});
+
+export const policySchema = z
+  .object({
+    /** Tools switched on (`true`) or off (`false`). Unlisted tools are on. */
+    tools: z.record(z.string(), z.boolean()).optional(),
+
+    /** Screen areas (in screenshot coordinates) pointer actions may not touch. */
+    forbiddenRegions: z.array(regionSchema).optional(),
+
+    /** Key combinations that may not be pressed, e.g. `"ctrl+alt+delete"`. */
+    blockedKeys: z.array(z.string()).optional(),
+
+    /** Longest text `type` and `paste_text` may enter in one call. */
+    maxTypeLength: z.number().int().min(0).optional(),
+
+    /**
+     * URL patterns for `goto`, where `*` matches anything. A URL matching a
+     * `deny` pattern is blocked; with `allow` set, only matching URLs pass.
+     * `back` and `forward` are checked where they land, and undone if
+     * blocked.
+     */
+    urls: z
+      .object({
+        allow: z.array(z.string()).optional(),
+        deny: z.array(z.string()).optional(),
+      })
+      .strict()
+      .optional(),
+
+    /** Calls that need a human's approval before they run. */
+    confirm: z
+      .object({
+        /** Tools that always need approval. */
+        tools: z.array(z.string()).optional(),
+
+        /** Screen areas where pointer actions need approval. */
+        regions: z.array(regionSchema).optional(),
+
+        /** Keys or combinations, e.g. `"enter"`, whose press needs approval. */
+        keys: z.array(z.string()).optional(),
+
+        /** `goto` to a host not visited in this session needs approval. */
+        newDomains: z.boolean().optional(),
+
+        /** How long to wait for an answer before denying. Default `60000`. */
+        timeoutMs: z.number().int().positive().optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+export type Policy = z.infer<typeof policySchema>;
+
+/** Read and validate a policy file. */
+export function loadPolicy(file: string): Policy {
+  let json: unknown;
+  try {
+    json = JSON.parse(readFileSync(file, "utf8"));
+  } catch (err) {
+    throw new Error(
+      `Cannot read policy file ${file}: ${err instanceof Error ? err.message : err}`,
+    );
+  }
+  const parsed = policySchema.safeParse(json);
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid policy file ${file}: ${z.prettifyError(parsed.error)}`,
+    );
+  }
+  return parsed.data;
+}
+
+/** What policy checks read from the computer. */
+export type PolicyComputer = Pick<Computer, "getHeldInputs" | "getDisplay">;
+
+/** Middleware that refuses tool calls breaking `policy`. */
+export function policyMiddleware(
+  policy: Policy,
+  computer: PolicyComputer,
+): ToolMiddleware {
+  const refuse = (tool: string, violation: string): never => {
+    console.error(`Policy violation in ${tool}: ${violation}`);
+    throw new Error(`Blocked by policy: ${violation}`);
+  };
+
+  return async (tool, args, next) => {
+    const violation = await checkPolicy(policy, computer, tool, args);
+    if (violation) refuse(tool, violation);
+    const result = await next();
+
+    // History navigation only reveals its destination once it has gone there
+    if (
+      policy.urls &&
+      (tool === "back" || tool === "forward") &&
+      computer instanceof PlaywrightComputer
+    ) {
+      const url = await computer.getCurrentUrl();
+      const landed = url ? urlViolation(policy.urls, url) : null;
+      if (landed) {
+        await (tool === "back" ? computer.forward() : computer.back());
+        refuse(tool, landed);
+      }
+    }
+    return result;
+  };
+}
+
+/**
+ * Check one tool call against `policy`. Returns why it is not allowed, or
+ * `null` if it is.
+ */
+export async function checkPolicy(
+  policy: Policy,
+  computer: PolicyComputer,
+  tool: string,
+  args: Record<string, unknown>,
+): Promise<string | null> {
+  if (policy.tools?.[tool] === false) {
+    return `the ${tool} tool is disabled.`;
+  }
+
+  for (const [name, action, held] of actionsOf(computer, tool, args)) {
+    if (name !== tool && policy.tools?.[name] === false) {
+      return `the ${name} action is disabled.`;
+    }
+    const violation = await checkAction(policy, computer, name, action, held);
+    if (violation) return violation;
+  }
+  return null;
+}
+
+async function checkAction(
+  policy: Policy,
+  computer: PolicyComputer,
+  tool: string,
+  args: Record<string, unknown>,
+  held: Set<string>,
+): Promise<string | null> {
+  // -- pointer targets
+  if (policy.forbiddenRegions?.length) {
+    const hit = await regionHit(computer, policy.forbiddenRegions, tool, args);
+    if (hit) {
+      return `${formatPoint(hit.point)} is inside the forbidden region${regionName(hit.region)}.`;
+    }
+  }
+
+  // -- key combinations, including keys already held down
+  if (policy.blockedKeys?.length) {
+    const blocked = pressedCombo(policy.blockedKeys, tool, args, held);
+    if (blocked) return `the key combination ${blocked} is blocked.`;
+  }
+
+  // -- typed text
+  if (
+    policy.maxTypeLength !== undefined &&
+    (tool === "type" || tool === "paste_text") &&
+    typeof args.text === "string" &&
+    args.text.length > policy.maxTypeLength
+  ) {
+    return `text of ${args.text.length} characters exceeds the limit of ${policy.maxTypeLength}.`;
+  }
+
+  // -- navigation
+  if (policy.urls && tool === "goto" && typeof args.url === "string") {
+    return urlViolation(policy.urls, args.url);
+  }
+
+  return null;
+}
+
+/** Why navigating to `url` breaks the URL rules, or `null` if it does not. */
+function urlViolation(
+  urls: NonNullable<Policy["urls"]>,
+  url: string,
+): string | null {
+  if (urls.deny?.some((pattern) => matchesUrl(pattern, url))) {
+    return `navigation to ${url} is denied.`;
+  }
+  if (urls.allow && !urls.allow.some((pattern) => matchesUrl(pattern, url))) {
+    return `navigation to ${url} is not in the allow list.`;
+  }
+  return null;
+}
+
+/** Why a tool call needs approval, and the screen points it targets. */
+export interface ConfirmationRequest {
+  reasons: string[];
+  points: TargetPoint[];
+}
+
+/** A point an action targets, on the display it runs on. */
+export interface TargetPoint extends Point {
+  display: number;
+}
+
+/**
+ * Check one tool call against the `confirm` rules of `policy`. Returns why
+ * it needs a human's approval, or `null` if it can run straight away.
+ *
+ * @param knownHosts Hosts `goto` may visit without asking.
+ */
+export async function checkConfirmation(
+  policy: Policy,
+  computer: PolicyComputer,
+  tool: string,
+  args: Record<string, unknown>,
+  knownHosts: ReadonlySet<string>,
+): Promise<ConfirmationRequest | null> {
+  const rules = policy.confirm;
+  if (!rules) return null;
+
+  const reasons: string[] = [];
+  const points: TargetPoint[] = [];
+  if (rules.tools?.includes(tool)) {
+    reasons.push(`${tool} always needs confirmation.`);
+  }
+
+  for (const [name, action, held] of actionsOf(computer, tool, args)) {
+    if (name !== tool && rules.tools?.includes(name)) {
+      reasons.push(`${name} always needs confirmation.`);
+    }
+    const targets = await pointsOf(computer, name, action);
+    if (targets.length > 0) {
+      const display = await displayOf(computer, action);
+      points.push(...targets.map((point) => ({ ...point, display })));
+    }
+
+    if (rules.regions?.length) {
+      const hit = await regionHit(computer, rules.regions, name, action);
+      if (hit) {
+        reasons.push(
+          `${name} at ${formatPoint(hit.point)} is inside the region${regionName(hit.region)}.`,
+        );
+      }
+    }
+    if (rules.keys?.length) {
+      const combo = pressedCombo(rules.keys, name, action, held);
+      if (combo) reasons.push(`${name} presses ${combo}.`);
+    }
+    if (rules.newDomains && name === "goto" && typeof action.url === "string") {
+      const host = hostOf(action.url);
+      if (host && !knownHosts.has(host)) {
+        reasons.push(`${host} has not been visited in this session.`);
+      }
+    }
+  }
+
+  return reasons.length > 0 ? { reasons, points } : null;
+}
+
+/**
+ * The actions a tool call performs — the call itself, or each action of a
+ * batch — with the keys held down when each one runs.
+ */
+function* actionsOf(
+  computer: PolicyComputer,
+  tool: string,
+  args: Record<string, unknown>,
+): Generator<[string, Record<string, unknown>, Set<string>]> {
+  const held = new Set(computer.getHeldInputs().keys.map(normalizeKey));
+  if (tool !== "batch" || !Array.isArray(args.actions)) {
+    yield [tool, args, held];
+    return;
+  }
+  for (const action of args.actions as Record<string, unknown>[]) {
+    const name = String(action.action);
+    yield [name, action, held];
+    if (name === "key_down") held.add(normalizeKey(String(action.key)));
+    if (name === "key_up") held.delete(normalizeKey(String(action.key)));
+  }
+}
+
+type Region = z.infer<typeof regionSchema>;
+
+/** The first point of a pointer action that falls in one of `regions`. */
+async function regionHit(
+  computer: PolicyComputer,
+  regions: Region[],
+  tool: string,
+  args: Record<string, unknown>,
+): Promise<{ point: Point; region: Region } | undefined> {
+  const points = await pointsOf(computer, tool, args);
+  if (points.length === 0) return undefined;
+
+  const display = await displayOf(computer, args);
+  for (const point of points) {
+    const region = regions.find(
+      (r) =>
+        (r.display === undefined || r.display === display) &&
+        point.x >= r.x &&
+        point.x < r.x + r.width &&
+        point.y >= r.y &&
+        point.y < r.y + r.height,
+    );
+    if (region) return { point, region };
+  }
+  return undefined;
+}
+
+/** The display an action runs on: its own `display`, or the selected one. */
+async function displayOf(
+  computer: PolicyComputer,
+  args: Record<string, unknown>,
+): Promise<number> {
+  return typeof args.display === "number"
+    ? args.display
+    : (await computer.getDisplay()).id;
+}
+
+const formatPoint = (point: Point) => `(${point.x}, ${point.y})`;
+
+const regionName = (region: Region) => (region.name ? ` "${region.name}"` : "");
+
+/**
+ * The first of `combos` fully pressed by a `keypress` or `key_down`, counting
+ * keys already held down. A line break in typed or pasted text presses enter.
+ */
+function pressedCombo(
+  combos: string[],
+  tool: string,
+  args: Record<string, unknown>,
+  held: Set<string>,
+): string | undefined {
+  let pressed: string[] = [];
+  if (tool === "keypress" && Array.isArray(args.keys)) {
+    pressed = (args.keys as string[]).flatMap(splitCombo);
+  } else if (tool === "key_down" && typeof args.key === "string") {
+    pressed = [normalizeKey(args.key)];
+  } else if (
+    (tool === "type" || tool === "paste_text") &&
+    typeof args.text === "string" &&
+    /[\r\n]/.test(args.text)
+  ) {
+    pressed = ["enter"];
+  }
+  if (pressed.length === 0) return undefined;
+
+  const keys = new Set([...held, ...pressed]);
+  return combos.find((combo) =>
+    splitCombo(combo).every((key) => keys.has(key)),
+  );
+}
+
+/** Screen points a pointer tool or action would touch. */
+async function pointsOf(
+  computer: PolicyComputer,
+  tool: string,
+  args: Record<string, unknown>,
+): Promise<Point[]> {
+  if (tool === "drag" && Array.isArray(args.path)) {
+    return args.path as Point[];
+  }
+  if (tool === "click_mark" && computer instanceof PlaywrightComputer) {
+    return [await computer.markCenter(Number(args.mark))];
+  }
+  if (typeof args.x === "number" && typeof args.y === "number") {
+    return [{ x: args.x, y: args.y }];
+  }
+  return [];
+}
+
+const KEY_ALIASES: Record<string, string> = {
+  control: "ctrl",
+  option: "alt",
+  cmd: "meta",
+  command: "meta",
+  super: "meta",
+  win: "meta",
+  return: "enter",
+  esc: "escape",
+  del: "delete",
+};
+
+function normalizeKey(key: string): string {
+  const lower = key.trim().toLowerCase();
+  return KEY_ALIASES[lower] ?? lower;
+}
+
+/** `"Ctrl+Alt+Delete"` → `["ctrl", "alt", "delete"]`; `"+"` stays a key. */
+function splitCombo(combo: string): string[] {
+  if (combo.length <= 1) return [normalizeKey(combo)];
+  return combo
+    .split("+")
+    .filter((key) => key.trim())
+    .map(normalizeKey);
+}
+
+/** Match a URL against a pattern in which `*` matches any run of characters. */
+function matchesUrl(pattern: string, url: string): boolean {
+  const source = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${source}$`, "i").test(url);
+}
+
+/** Lower-cased host name of a URL, or `null` if it cannot be parsed. */
+export function hostOf(url: string): string | null {
+  try {
+    return new URL(url).hostname.toLowerCase() || null;
+  } catch {
+    return null;
+  }
+}
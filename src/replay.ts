@@ -0,0 +1,219 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+import type { Computer } from "./computers/computer.js";
+import { PlaywrightComputer } from "./computers/playwright-computer.js";
+import {
+  registerPlaywrightTools,
+  registerTools,
+  ToolOptions,
+} from "./server.js";
+import { decodeFrame, diffFrames } from "./utils/image-diff.js";
+import { readTrace, TraceCall } from "./utils/trace-recorder.js";
+
+/**
+ * Re-run a recorded session trace against a computer, through the same tool
+ * handlers the server uses, and check that the screen still looks the way it
+ * did when the trace was recorded.
+ */
+
+export interface ReplayOptions {
+  /**
+   * Playback speed relative to the recording: `2` halves the pauses between
+   * calls, `0` skips them. Default `1`.
+   */
+  speed?: number;
+
+  /**
+   * Lowest similarity (0–1) between a recorded and a replayed screenshot
+   * before the step counts as diverged. Default `0.9`.
+   */
+  threshold?: number;
+
+  /** Stop at the first failed or diverged step. Default `true`. */
+  stopOnDivergence?: boolean;
+
+  /** Options for the replaying tools; should match the recording server. */
+  toolOptions?: ToolOptions;
+
+  /** Called after every step, e.g. to print progress. */
+  onStep?: (step: ReplayStep) => void;
+}
+
+export interface ReplayStep {
+  seq: number;
+  tool: string;
+
+  /**
+   * `ok`: ran and matched; `failed`: errored where the recording did not;
+   * `diverged`: a screenshot differs from the recorded one.
+   */
+  status: "ok" | "failed" | "diverged";
+
+  /** Similarity of the first screenshot in the result, when there was one. */
+  similarity?: number;
+  error?: string;
+}
+
+export interface ReplayReport {
+  /** Calls in the trace, including ones skipped because they had failed. */
+  total: number;
+  steps: ReplayStep[];
+  durationMs: number;
+
+  /** Sequence number of the step playback stopped at, if it stopped early. */
+  stoppedAt?: number;
+}
+
+const DEFAULT_THRESHOLD = 0.9;
+
+/** Replay the trace in `file` against `computer`. */
+export async function replayTrace(
+  file: string,
+  computer: Computer,
+  options: ReplayOptions = {},
+): Promise<ReplayReport> {
+  const speed = options.speed ?? 1;
+  const threshold = options.threshold ?? DEFAULT_THRESHOLD;
+  if (!(threshold >= 0 && threshold <= 1)) {
+    throw new Error(`Threshold must be between 0 and 1, got ${threshold}.`);
+  }
+  const stopOnDivergence = options.stopOnDivergence ?? true;
+  const { session, calls } = await readTrace(file);
+
+  const [width, height] = await computer.getDimensions();
+  const [recordedWidth, recordedHeight] = session.dimensions;
+  if (width !== recordedWidth || height !== recordedHeight) {
+    console.error(
+      `Warning: trace was recorded at ${recordedWidth}x${recordedHeight}, ` +
+        `replaying at ${width}x${height}. Coordinates may not line up.`,
+    );
+  }
+
+  const client = await connect(computer, options.toolOptions ?? {});
+  const started = Date.now();
+  const report: ReplayReport = {
+    total: calls.length,
+    steps: [],
+    durationMs: 0,
+  };
+
+  try {
+    // Calls that failed when recorded had no effect worth reproducing
+    const replayable = calls.filter((call) => !call.error && !call.isError);
+    for (const [i, call] of replayable.entries()) {
+      if (i > 0 && speed > 0) {
+        await computer.wait(pauseBefore(call, replayable[i - 1]) / speed);
+      }
+
+      const step = await replayCall(
+        client,
+        call,
+        path.dirname(file),
+        threshold,
+      );
+      report.steps.push(step);
+      options.onStep?.(step);
+
+      if (step.status !== "ok" && stopOnDivergence) {
+        report.stoppedAt = step.seq;
+        break;
+      }
+    }
+  } finally {
+    await client.close();
+  }
+
+  report.durationMs = Date.now() - started;
+  return report;
+}
+
+/** Summarise a report, one line per step that did not go to plan. */
+export function formatReplayReport(report: ReplayReport): string {
+  const count = (status: ReplayStep["status"]) =>
+    report.steps.filter((s) => s.status === status).length;
+  const lines = [
+    `Replayed ${report.steps.length} of ${report.total} calls in ` +
+      `${(report.durationMs / 1000).toFixed(1)}s: ${count("ok")} ok, ` +
+      `${count("failed")} failed, ${count("diverged")} diverged.`,
+  ];
+
+  for (const step of report.steps) {
+    if (step.status === "failed") {
+      lines.push(`  #${step.seq} ${step.tool}: failed: ${step.error}`);
+    } else if (step.status === "diverged") {
+      const similarity = step.similarity?.toFixed(3) ?? "n/a";
+      lines.push(
+        `  #${step.seq} ${step.tool}: diverged (similarity ${similarity})`,
+      );
+    }
+  }
+  if (report.stoppedAt !== undefined) {
+    lines.push(`Stopped at #${report.stoppedAt}.`);
+  }
+  return lines.join("\n");
+}
+
+/** Serve the tools in-process so replay goes through the real handlers. */
+async function connect(
+  computer: Computer,
+  toolOptions: ToolOptions,
+): Promise<Client> {
+  const server = new McpServer({ name: "computermate-replay", version: "1" });
+  registerTools(server, computer, toolOptions);
+  if (computer instanceof PlaywrightComputer) {
+    registerPlaywrightTools(server, computer, toolOptions);
+  }
+
+  const [clientTransport, serverTransport] =
+    InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+
+  const client = new Client({ name: "computermate-replay", version: "1" });
+  await client.connect(clientTransport);
+  return client;
+}
+
+/** The time the agent spent between the end of one call and the next. */
+function pauseBefore(call: TraceCall, previous: TraceCall): number {
+  const previousEnd = Date.parse(previous.time) + previous.durationMs;
+  return Math.max(0, Date.parse(call.time) - previousEnd);
+}
+
+async function replayCall(
+  client: Client,
+  call: TraceCall,
+  dir: string,
+  threshold: number,
+): Promise<ReplayStep> {
+  const step: ReplayStep = { seq: call.seq, tool: call.tool, status: "ok" };
+
+  const result = (await client.callTool({
+    name: call.tool,
+    arguments: call.args,
+  })) as CallToolResult;
+  if (result.isError) {
+    const text = result.content.find((c) => c.type === "text");
+    step.status = "failed";
+    step.error = text?.type === "text" ? text.text : "Unknown error";
+    return step;
+  }
+
+  // Compare the first screenshot of each side, if both have one
+  const recorded = call.content?.find((c) => c.type === "image");
+  const replayed = result.content.find((c) => c.type === "image");
+  if (recorded?.type === "image" && replayed?.type === "image") {
+    const diff = diffFrames(
+      await decodeFrame(await readFile(path.join(dir, recorded.file))),
+      await decodeFrame(Buffer.from(replayed.data, "base64")),
+    );
+    step.similarity = 1 - diff.changedRatio;
+    if (step.similarity < threshold) step.status = "diverged";
+  }
+  return step;
+}
@@ -1,47 +1,773 @@
+import { readFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import sharp from "sharp";
 import { z } from "zod";
 
-import type { Computer } from "./computers/computer.js";
-import { PlaywrightComputer } from "./computers/playwright-computer.js";
-import { NativeComputer } from "./computers/native-computer.js";
+import {
+  Action,
+  ActionName,
+  actionSchema,
+  actionShapes,
+  displayParam,
+  performAction,
+} from "./actions.js";
+import type {
+  Computer,
+  ImageEncoding,
+  Point,
+  Rect,
+} from "./computers/computer.js";
+import type { PlaywrightComputer } from "./computers/playwright-computer.js";
+import { ToolMiddleware, withMiddleware } from "./middleware.js";
+import { loadPolicy, Policy, policyMiddleware } from "./policy.js";
+import { confirmationMiddleware } from "./confirmation.js";
+import { loadMockScene, MockComputer } from "./computers/mock-computer.js";
+import { waitForChange, waitForStable } from "./utils/screen-wait.js";
+import { findTemplate, TemplateMatch } from "./utils/template-match.js";
+import { formatAccessibilityTree } from "./utils/accessibility-tree.js";
+import { formatMarkLegend } from "./utils/set-of-marks.js";
+import { drawGrid } from "./utils/grid-overlay.js";
+import { compressImage, imageMimeType } from "./utils/compress-image.js";
+import { FrameTracker } from "./utils/frame-tracker.js";
+import { FrameStore } from "./utils/frame-store.js";
+import { TraceRecorder } from "./utils/trace-recorder.js";
+import { ActionBudget, BudgetLimits } from "./utils/action-budget.js";
+import {
+  changedRegions,
+  cropFrame,
+  decodeFrame,
+  diffFrames,
+  highlightRegions,
+} from "./utils/image-diff.js";
 
-export type ComputerType = "playwright" | "native";
+export type ComputerType = "playwright" | "native" | "mock";
 
 // ---------------------------------------------------------------------------
 // Computer factory
 // ---------------------------------------------------------------------------
 
-export function createComputer(
+/**
+ * Create a computer of the given type. Resolves once the coordinate space
+ * (and therefore `getDimensions`) is final, so tools registered on the result
+ * never observe unscaled dimensions.
+ *
+ * With `options.recordSession`, browsers record from launch, so the session
+ * recording does not reopen the page.
+ *
+ * The native and browser backends are loaded on demand, so the others run
+ * without their dependencies installed.
+ */
+export async function createComputer(
   type: ComputerType,
   maxScalingDimension?: string,
-): Computer {
+  options: ToolOptions = {},
+): Promise<Computer> {
   if (type === "playwright") {
+    const { PlaywrightComputer } =
+      await import("./computers/playwright-computer.js");
     return new PlaywrightComputer({
       headless: process.env.HEADLESS === "true",
       virtualCursor: process.env.VIRTUAL_CURSOR === "true",
       maxScalingDimension,
+      recordVideoDir: options.recordSession
+        ? (options.recordingDir ?? os.tmpdir())
+        : undefined,
+    });
+  }
+
+  if (type === "mock") {
+    return new MockComputer({
+      scene: process.env.MOCK_SCENE
+        ? loadMockScene(process.env.MOCK_SCENE)
+        : undefined,
+      maxScalingDimension,
     });
   }
 
-  return new NativeComputer({ maxScalingDimension });
+  const { NativeComputer } = await import("./computers/native-computer.js");
+  return NativeComputer.create({
+    maxScalingDimension,
+    drawCursor: process.env.DRAW_CURSOR === "true",
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Tool options
+// ---------------------------------------------------------------------------
+
+/** Server-wide defaults for the registered tools. */
+export interface ToolOptions {
+  /**
+   * Attach a screenshot to the result of every action tool unless the call
+   * opts out with `screenshot: false`. Default `false`.
+   */
+  screenshotAfterAction?: boolean;
+
+  /** Delay before that screenshot is taken, letting the UI settle. Default `500`. */
+  settleDelayMs?: number;
+
+  /** Directory that `find_image` resolves `template_name` against. */
+  templateDir?: string;
+
+  /**
+   * Overlay a labeled coordinate grid with this spacing on every screenshot
+   * unless a call overrides it with `grid`. Default `0` (off).
+   */
+  gridSpacing?: number;
+
+  /** Default encoding of returned screenshots. PNG under 5 MB by default. */
+  imageEncoding?: ImageEncoding;
+
+  /**
+   * Answer a full-screen screenshot identical to the previous one with a
+   * short "unchanged" note instead of the image, unless a call overrides it
+   * with `dedupe`. Default `false`.
+   */
+  dedupeScreenshots?: boolean;
+
+  /**
+   * Record every tool call of the session to a JSONL trace file in this
+   * directory, with result images saved beside it. Default off.
+   */
+  traceDir?: string;
+
+  /** Directory recordings are written to. Default: the system temp directory. */
+  recordingDir?: string;
+
+  /** Frames per second of native (sampled) recordings. Default `2`. */
+  recordingFps?: number;
+
+  /**
+   * Record every session from start to end (see {@link startSessionRecording}).
+   * Default `false`.
+   */
+  recordSession?: boolean;
+
+  /** Safety rules checked before every tool call. Default: none. */
+  policy?: Policy;
+
+  /**
+   * Limits on actions, wait time and typed text per session. Calls beyond
+   * them fail with a structured "budget_exhausted" error. Default: none.
+   */
+  budget?: BudgetLimits;
+}
+
+const imageFormat = z.enum(["png", "jpeg", "webp"]);
+
+/** Read {@link ToolOptions} from environment variables. */
+export function toolOptionsFromEnv(env = process.env): ToolOptions {
+  return {
+    screenshotAfterAction: env.SCREENSHOT_AFTER_ACTION === "true",
+    settleDelayMs: env.SETTLE_DELAY_MS
+      ? parseInt(env.SETTLE_DELAY_MS, 10)
+      : undefined,
+    templateDir: env.TEMPLATE_DIR || undefined,
+    gridSpacing: env.GRID_SPACING ? parseInt(env.GRID_SPACING, 10) : undefined,
+    imageEncoding: {
+      format: env.IMAGE_FORMAT
+        ? imageFormat.parse(env.IMAGE_FORMAT)
+        : undefined,
+      quality: env.IMAGE_QUALITY ? parseInt(env.IMAGE_QUALITY, 10) : undefined,
+      maxBytes: env.IMAGE_MAX_BYTES
+        ? parseInt(env.IMAGE_MAX_BYTES, 10)
+        : undefined,
+      grayscale: env.IMAGE_GRAYSCALE === "true",
+    },
+    dedupeScreenshots: env.DEDUPE_SCREENSHOTS === "true",
+    traceDir: env.TRACE_DIR || undefined,
+    recordingDir: env.RECORDING_DIR || undefined,
+    recordingFps: env.RECORDING_FPS ? parseFloat(env.RECORDING_FPS) : undefined,
+    recordSession: env.RECORD_SESSION === "true",
+    policy: env.POLICY_FILE ? loadPolicy(env.POLICY_FILE) : undefined,
+    budget: {
+      maxActions: limitFromEnv(env, "MAX_ACTIONS"),
+      maxActionsPerMinute: limitFromEnv(env, "MAX_ACTIONS_PER_MINUTE"),
+      maxWaitMs: limitFromEnv(env, "MAX_WAIT_MS"),
+      maxTypedChars: limitFromEnv(env, "MAX_TYPED_CHARS"),
+    },
+  };
+}
+
+/**
+ * A budget limit from `env[name]`, or `undefined` when unset. Anything but a
+ * non-negative integer is refused rather than read as no limit.
+ */
+function limitFromEnv(
+  env: NodeJS.ProcessEnv,
+  name: string,
+): number | undefined {
+  const value = env[name];
+  if (!value) return undefined;
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 0) {
+    throw new Error(`${name} must be a non-negative integer, got "${value}".`);
+  }
+  return limit;
+}
+
+const DEFAULT_SETTLE_DELAY_MS = 500;
+
+/** Largest output side `zoom` will produce. */
+const MAX_ZOOM_DIMENSION = 4096;
+
+const regionParam = z
+  .object({
+    x1: z.number().describe("X coordinate of the first point"),
+    y1: z.number().describe("Y coordinate of the first point"),
+    x2: z.number().describe("X coordinate of the second point"),
+    y2: z.number().describe("Y coordinate of the second point"),
+  })
+  .optional()
+  .describe("Region to watch. Defaults to the whole screen");
+
+type Region = z.infer<typeof regionParam>;
+
+/** Capture the given region (or the whole screen) of a display as base64. */
+function captureRegion(
+  computer: Computer,
+  region: Region,
+  display: number | undefined,
+): Promise<string> {
+  return region
+    ? computer.screenshotRegion(
+        { x: region.x1, y: region.y1 },
+        { x: region.x2, y: region.y2 },
+        undefined,
+        display,
+      )
+    : computer.screenshot(undefined, display);
+}
+
+/** Shift a rectangle from region-local to screen coordinates. */
+function offsetRect(rect: Rect | null, region: Region): Rect | null {
+  if (!rect || !region) return rect;
+  return {
+    ...rect,
+    x: rect.x + Math.min(region.x1, region.x2),
+    y: rect.y + Math.min(region.y1, region.y2),
+  };
+}
+
+const pollParams = {
+  interval_ms: z
+    .number()
+    .min(50)
+    .default(250)
+    .describe("Delay between captures in milliseconds"),
+  timeout_ms: z
+    .number()
+    .min(0)
+    .default(10_000)
+    .describe("Give up after this many milliseconds"),
+  threshold: z
+    .number()
+    .min(0)
+    .max(1)
+    .default(0.001)
+    .describe("Fraction of changed pixels (0-1) that counts as a change"),
+};
+
+const TEMPLATE_EXTENSIONS = ["", ".png", ".jpg", ".jpeg", ".webp"];
+
+const templateParams = {
+  template: z
+    .string()
+    .optional()
+    .describe("Base64-encoded image (PNG, JPEG or WebP) to search for"),
+  template_name: z
+    .string()
+    .optional()
+    .describe(
+      "Name of an image in the server's template directory, with or without extension. Used when template is not given",
+    ),
+  template_scale: z
+    .number()
+    .positive()
+    .default(1)
+    .describe(
+      "Resize the template by this factor before searching, e.g. 0.5 for a template cropped at full resolution when screenshots are scaled to half size",
+    ),
+  min_score: z
+    .number()
+    .min(-1)
+    .max(1)
+    .default(0.9)
+    .describe("Minimum match score (-1 to 1; 1 is a perfect match)"),
+  max_results: z
+    .number()
+    .int()
+    .min(1)
+    .max(50)
+    .default(5)
+    .describe("Maximum number of matches to return, best first"),
+  region: regionParam.describe(
+    "Region to search. Defaults to the whole screen",
+  ),
+  display: displayParam,
+};
+
+/** Decode an inline template or read a named one from the template directory. */
+async function loadTemplate(
+  options: ToolOptions,
+  template: string | undefined,
+  name: string | undefined,
+): Promise<Buffer> {
+  if (template) return Buffer.from(template, "base64");
+  if (!name) throw new Error("Either template or template_name is required");
+  if (!options.templateDir) {
+    throw new Error("template_name requires TEMPLATE_DIR to be set");
+  }
+
+  const dir = path.resolve(options.templateDir);
+  const base = path.resolve(dir, name);
+  if (path.relative(dir, base).startsWith("..") || path.isAbsolute(name)) {
+    throw new Error(
+      `Template name "${name}" is outside the template directory`,
+    );
+  }
+  for (const ext of TEMPLATE_EXTENSIONS) {
+    try {
+      return await readFile(base + ext);
+    } catch {
+      // try the next extension
+    }
+  }
+  throw new Error(`Template "${name}" not found in ${dir}`);
+}
+
+/** Format matches in screen coordinates, with the centre to click on. */
+function formatMatches(matches: TemplateMatch[], region: Region) {
+  return matches.map((m) => {
+    const { x, y, width, height } = offsetRect(m, region)!;
+    return {
+      x,
+      y,
+      width,
+      height,
+      center: {
+        x: Math.round(x + width / 2),
+        y: Math.round(y + height / 2),
+      },
+      score: Math.round(m.score * 1000) / 1000,
+    };
+  });
+}
+
+const screenshotParam = z
+  .boolean()
+  .optional()
+  .describe(
+    "Return a screenshot taken after the action settles. Defaults to the server setting.",
+  );
+
+const gridParam = z
+  .number()
+  .int()
+  .min(0)
+  .optional()
+  .describe(
+    "Overlay a labeled coordinate grid with a line every N pixels (0 = off). Labels use the same coordinates as click. Defaults to the server setting.",
+  );
+
+const encodingParams = {
+  format: imageFormat
+    .optional()
+    .describe("Image format. Defaults to the server setting (PNG)"),
+  quality: z
+    .number()
+    .int()
+    .min(1)
+    .max(100)
+    .optional()
+    .describe("JPEG/WebP quality (1-100). Defaults to the server setting"),
+  max_bytes: z
+    .number()
+    .int()
+    .min(1024)
+    .optional()
+    .describe(
+      "Size budget in bytes; larger images are re-encoded at lower quality. Defaults to the server setting",
+    ),
+  grayscale: z
+    .boolean()
+    .optional()
+    .describe("Return a grayscale image. Defaults to the server setting"),
+};
+
+/** Merge per-call encoding parameters over the server defaults. */
+function encodingFor(
+  options: ToolOptions,
+  args: {
+    format?: ImageEncoding["format"];
+    quality?: number;
+    max_bytes?: number;
+    grayscale?: boolean;
+  },
+): ImageEncoding {
+  const defaults = options.imageEncoding ?? {};
+  return {
+    format: args.format ?? defaults.format,
+    quality: args.quality ?? defaults.quality,
+    maxBytes: args.max_bytes ?? defaults.maxBytes,
+    grayscale: args.grayscale ?? defaults.grayscale,
+  };
+}
+
+/** Image content block with the MIME type of the actual encoding. */
+function imageContent(base64: string) {
+  // The first 16 base64 characters decode to the 12 bytes of magic needed
+  const head = Buffer.from(base64.slice(0, 16), "base64");
+  return {
+    type: "image" as const,
+    data: base64,
+    mimeType: imageMimeType(head),
+  };
+}
+
+const dedupeParam = z
+  .boolean()
+  .optional()
+  .describe(
+    "If the screen is identical to the last screenshot, reply with a short note instead of the image; otherwise also report where it changed. Defaults to the server setting.",
+  );
+
+/** How a retained frame was captured, so it can be captured again. */
+interface CaptureSettings {
+  display: number;
+  region: Region;
+  grid: number | undefined;
+  encoding: ImageEncoding;
+}
+
+/** Screenshots remembered for a computer. */
+interface ScreenHistory {
+  /** Last full-screen frame per display, for deduplication. */
+  tracker: FrameTracker;
+
+  /** Recent screenshots by id, for screenshot_diff. */
+  frames: FrameStore<CaptureSettings>;
+}
+
+/**
+ * Keyed by computer rather than server because the HTTP transport creates a
+ * server per request.
+ */
+const screenHistories = new WeakMap<Computer, ScreenHistory>();
+
+function screenHistory(computer: Computer): ScreenHistory {
+  let history = screenHistories.get(computer);
+  if (!history) {
+    history = { tracker: new FrameTracker(), frames: new FrameStore() };
+    screenHistories.set(computer, history);
+  }
+  return history;
+}
+
+/**
+ * Frames are only compared with earlier ones of the same display captured
+ * with the same grid and encoding.
+ */
+function frameKey({ display, grid, encoding }: CaptureSettings): string {
+  const { format = "png", quality, maxBytes, grayscale = false } = encoding;
+  return JSON.stringify({
+    display,
+    grid,
+    format,
+    quality,
+    maxBytes,
+    grayscale,
+  });
+}
+
+/**
+ * Content for a full-screen capture taken with `settings`. With `dedupe`, a
+ * frame identical to the last one is replaced by a note, and a changed one
+ * is followed by where it changed.
+ */
+async function screenshotContent(
+  computer: Computer,
+  base64: string,
+  dedupe: boolean,
+  settings: CaptureSettings,
+): Promise<CallToolResult["content"]> {
+  const { tracker } = screenHistory(computer);
+  const key = frameKey(settings);
+  const image = Buffer.from(base64, "base64");
+
+  if (!dedupe) {
+    tracker.record(key, image);
+    return [imageContent(base64)];
+  }
+
+  const comparison = await tracker.update(key, image);
+  if (!comparison) return [imageContent(base64)];
+  if (comparison.unchanged) {
+    return [{ type: "text", text: "Screen unchanged since last screenshot." }];
+  }
+  const { bounds } = comparison;
+  const where = bounds
+    ? `Changed since last screenshot in region ${JSON.stringify(bounds)}.`
+    : "Changed slightly since last screenshot.";
+  return [imageContent(base64), { type: "text", text: where }];
+}
+
+/**
+ * Capture an image with the given encoding, overlaying the grid (if any)
+ * before encoding. `origin` is the capture's top-left corner on screen.
+ */
+async function captureWithGrid(
+  capture: (encoding?: ImageEncoding) => Promise<string>,
+  encoding: ImageEncoding,
+  spacing: number | undefined,
+  origin?: Point,
+): Promise<string> {
+  if (!spacing) return capture(encoding);
+  const image = await drawGrid(
+    Buffer.from(await capture(), "base64"),
+    spacing,
+    origin,
+    encoding,
+  );
+  return image.toString("base64");
+}
+
+/** Capture the current screen as `settings` say. */
+function captureFrame(
+  computer: Computer,
+  settings: CaptureSettings,
+): Promise<string> {
+  const { region, display } = settings;
+  if (!region) {
+    return captureWithGrid(
+      (encoding) => computer.screenshot(encoding, display),
+      settings.encoding,
+      settings.grid,
+    );
+  }
+  return captureWithGrid(
+    (encoding) =>
+      computer.screenshotRegion(
+        { x: region.x1, y: region.y1 },
+        { x: region.x2, y: region.y2 },
+        encoding,
+        display,
+      ),
+    settings.encoding,
+    settings.grid,
+    { x: Math.min(region.x1, region.x2), y: Math.min(region.y1, region.y2) },
+  );
+}
+
+/**
+ * Retain the image returned in `content` (if any) and label it with its
+ * frame id so screenshot_diff can refer back to it.
+ */
+function withFrameId(
+  computer: Computer,
+  content: CallToolResult["content"],
+  base64: string,
+  settings: CaptureSettings,
+): CallToolResult["content"] {
+  if (!content.some((block) => block.type === "image")) return content;
+  const frame = screenHistory(computer).frames.add(
+    Buffer.from(base64, "base64"),
+    settings,
+  );
+  return [...content, { type: "text", text: `Frame id: ${frame.id}` }];
+}
+
+/**
+ * Build an action tool result: the confirmation text, followed by a
+ * screenshot of the settled screen when requested (or enabled server-wide).
+ */
+async function actionResult(
+  computer: Computer,
+  options: ToolOptions,
+  text: string,
+  screenshot: boolean | undefined,
+  isError = false,
+): Promise<CallToolResult> {
+  const content: CallToolResult["content"] = [{ type: "text", text }];
+
+  if (screenshot ?? options.screenshotAfterAction ?? false) {
+    await computer.wait(options.settleDelayMs ?? DEFAULT_SETTLE_DELAY_MS);
+    const settings: CaptureSettings = {
+      display: (await computer.getDisplay()).id,
+      region: undefined,
+      grid: options.gridSpacing,
+      encoding: options.imageEncoding ?? {},
+    };
+    const base64 = await captureFrame(computer, settings);
+    content.push(
+      ...(await screenshotContent(
+        computer,
+        base64,
+        options.dedupeScreenshots ?? false,
+        settings,
+      )),
+    );
+  }
+
+  return { content, isError };
+}
+
+/** The type `computer` was created as. */
+function computerType(computer: Computer): ComputerType {
+  if (computer instanceof MockComputer) return "mock";
+  return computer.getEnvironment() === "browser" ? "playwright" : "native";
+}
+
+// ---------------------------------------------------------------------------
+// Tool middleware
+// ---------------------------------------------------------------------------
+
+/**
+ * Trace of the session per computer, so core and Playwright tools (and all
+ * HTTP requests) write to the same file.
+ */
+const traceRecorders = new WeakMap<Computer, TraceRecorder>();
+
+/** Action budget of the session per computer, shared the same way. */
+const actionBudgets = new WeakMap<Computer, ActionBudget>();
+
+function actionBudget(computer: Computer, options: ToolOptions): ActionBudget {
+  let budget = actionBudgets.get(computer);
+  if (!budget) {
+    budget = new ActionBudget(options.budget);
+    actionBudgets.set(computer, budget);
+  }
+  return budget;
+}
+
+/** The middleware every tool call runs through, outermost first. */
+function toolMiddleware(
+  server: McpServer,
+  computer: Computer,
+  options: ToolOptions,
+): ToolMiddleware[] {
+  const middleware: ToolMiddleware[] = [];
+
+  if (options.traceDir) {
+    let recorder = traceRecorders.get(computer);
+    if (!recorder) {
+      recorder = new TraceRecorder(
+        options.traceDir,
+        computer,
+        computerType(computer),
+      );
+      traceRecorders.set(computer, recorder);
+    }
+    middleware.push((tool, args, next) => recorder.record(tool, args, next));
+  }
+
+  // Inside the trace, so refused calls are recorded too
+  if (options.policy) {
+    middleware.push(policyMiddleware(options.policy, computer));
+  }
+
+  // Only calls the policy allows are worth asking about
+  if (options.policy?.confirm) {
+    middleware.push(confirmationMiddleware(options.policy, computer, server));
+  }
+
+  // Innermost, so only calls that are let through are charged. Usage is
+  // counted even without limits, for get_budget.
+  const budget = actionBudget(computer, options);
+  middleware.push(async (tool, args, next) => {
+    const exceeded = budget.charge(tool, args);
+    if (exceeded) {
+      console.error(`${tool}: ${exceeded.message}`);
+      return {
+        content: [{ type: "text", text: JSON.stringify(exceeded) }],
+        isError: true,
+      };
+    }
+    const started = Date.now();
+    try {
+      return await next();
+    } finally {
+      budget.settle(tool, args, Date.now() - started);
+    }
+  });
+
+  return middleware;
+}
+
+/** Wait until the session trace of `computer` (if any) is on disk. */
+export async function flushTrace(computer: Computer): Promise<void> {
+  await traceRecorders.get(computer)?.flush();
+}
+
+// ---------------------------------------------------------------------------
+// Session recording
+// ---------------------------------------------------------------------------
+
+/**
+ * Start recording the session if `options.recordSession` is set and the
+ * computer is not already recording from launch.
+ */
+export async function startSessionRecording(
+  computer: Computer,
+  options: ToolOptions,
+): Promise<void> {
+  if (!options.recordSession || computer.isRecording()) return;
+  await computer.startRecording({
+    dir: options.recordingDir,
+    fps: options.recordingFps,
+  });
+}
+
+/** Finish any recording still running and log where it was saved. */
+export async function stopSessionRecording(computer: Computer): Promise<void> {
+  if (!computer.isRecording()) return;
+  const recording = await computer.stopRecording();
+  console.error(`Session recording saved to ${recording.path}`);
 }
 
 // ---------------------------------------------------------------------------
 // Tool registration
 // ---------------------------------------------------------------------------
 
-export function registerTools(server: McpServer, computer: Computer): void {
+export function registerTools(
+  server: McpServer,
+  computer: Computer,
+  options: ToolOptions = {},
+): void {
+  server = withMiddleware(server, toolMiddleware(server, computer, options));
+
   // -- screenshot ---------------------------------------------------------
   server.registerTool(
     "screenshot",
     {
-      description: "Take a screenshot and return it as a base64-encoded PNG.",
+      description:
+        "Take a screenshot and return it as a base64-encoded image (PNG unless another format is requested).",
+      inputSchema: {
+        display: displayParam,
+        grid: gridParam,
+        dedupe: dedupeParam,
+        ...encodingParams,
+      },
     },
-    async () => {
-      const base64 = await computer.screenshot();
-      return {
-        content: [{ type: "image", data: base64, mimeType: "image/png" }],
+    async ({ display, grid, dedupe, ...args }) => {
+      const settings: CaptureSettings = {
+        display: (await computer.getDisplay(display)).id,
+        region: undefined,
+        grid: grid ?? options.gridSpacing,
+        encoding: encodingFor(options, args),
       };
+      const base64 = await captureFrame(computer, settings);
+      const content = await screenshotContent(
+        computer,
+        base64,
+        dedupe ?? options.dedupeScreenshots ?? false,
+        settings,
+      );
+      return { content: withFrameId(computer, content, base64, settings) };
     },
   );
 
@@ -50,173 +776,642 @@ export function registerTools(server: McpServer, computer: Computer): void {
     "screenshot_region",
     {
       description:
-        "Take a screenshot of a specific region and return it as a base64-encoded PNG.",
+        "Take a screenshot of a specific region and return it as a base64-encoded image.",
       inputSchema: {
         x1: z.number().describe("X coordinate of the first point"),
         y1: z.number().describe("Y coordinate of the first point"),
         x2: z.number().describe("X coordinate of the second point"),
         y2: z.number().describe("Y coordinate of the second point"),
+        display: displayParam,
+        grid: gridParam,
+        ...encodingParams,
+      },
+    },
+    async ({ x1, y1, x2, y2, display, grid, ...args }) => {
+      const settings: CaptureSettings = {
+        display: (await computer.getDisplay(display)).id,
+        region: { x1, y1, x2, y2 },
+        grid: grid ?? options.gridSpacing,
+        encoding: encodingFor(options, args),
+      };
+      const base64 = await captureFrame(computer, settings);
+      return {
+        content: withFrameId(
+          computer,
+          [imageContent(base64)],
+          base64,
+          settings,
+        ),
+      };
+    },
+  );
+
+  // -- screenshot_diff ----------------------------------------------------
+  server.registerTool(
+    "screenshot_diff",
+    {
+      description:
+        "Compare the current screen with an earlier screenshot or screenshot_region, referenced by its frame id. Captures the same display and region again and returns the changed rectangles (in screen coordinates) and the percentage of pixels that changed, optionally with the current image with changes outlined.",
+      inputSchema: {
+        frame_id: z
+          .number()
+          .int()
+          .describe("Frame id reported with an earlier screenshot"),
+        region: regionParam.describe(
+          "Only compare this part of the frame, in screen coordinates. Defaults to the whole frame",
+        ),
+        highlight: z
+          .boolean()
+          .default(false)
+          .describe("Also return the current image with changes outlined"),
       },
     },
-    async ({ x1, y1, x2, y2 }) => {
-      const base64 = await computer.screenshotRegion(
+    async ({ frame_id, region, highlight }) => {
+      const { frames } = screenHistory(computer);
+      const frame = frames.get(frame_id);
+      if (!frame) {
+        throw new Error(
+          `Unknown frame id ${frame_id}. Only the last ${frames.capacity} screenshots are kept.`,
+        );
+      }
+      const settings = frame.meta;
+      const base64 = await captureFrame(computer, settings);
+      const current = frames.add(Buffer.from(base64, "base64"), settings);
+
+      let before = await decodeFrame(frame.image);
+      let after = await decodeFrame(current.image);
+
+      // Frame pixels are screen coordinates offset by the captured region
+      const origin = settings.region
+        ? {
+            x: Math.min(settings.region.x1, settings.region.x2),
+            y: Math.min(settings.region.y1, settings.region.y2),
+          }
+        : { x: 0, y: 0 };
+      let crop = { x: 0, y: 0 };
+      if (region) {
+        const x = Math.min(region.x1, region.x2) - origin.x;
+        const y = Math.min(region.y1, region.y2) - origin.y;
+        const rect = {
+          x,
+          y,
+          width: Math.abs(region.x2 - region.x1),
+          height: Math.abs(region.y2 - region.y1),
+        };
+        before = cropFrame(before, rect);
+        after = cropFrame(after, rect);
+        if (after.width === 0 || after.height === 0) {
+          throw new Error(`Region lies outside frame ${frame_id}.`);
+        }
+        crop = { x: Math.max(0, Math.round(x)), y: Math.max(0, Math.round(y)) };
+      }
+
+      // Region rectangles relative to the current image
+      const changed = changedRegions(before, after).map((r) => ({
+        ...r,
+        x: r.x + crop.x,
+        y: r.y + crop.y,
+      }));
+      const diff = diffFrames(before, after);
+
+      const content: CallToolResult["content"] = [
+        {
+          type: "text",
+          text: JSON.stringify({
+            frame_id,
+            current_frame_id: current.id,
+            changed: changed.length > 0,
+            change_percent: Math.round(diff.changedRatio * 10000) / 100,
+            regions: changed.map((r) => offsetRect(r, settings.region)),
+          }),
+        },
+      ];
+      if (highlight) {
+        const image = await compressImage(
+          await highlightRegions(current.image, changed),
+          undefined,
+          settings.encoding,
+        );
+        content.push(imageContent(image.toString("base64")));
+      }
+      return { content };
+    },
+  );
+
+  // -- zoom ---------------------------------------------------------------
+  server.registerTool(
+    "zoom",
+    {
+      description:
+        "Capture a region (in the usual screenshot coordinates) at full native resolution, or resized to fit within width x height, so small text becomes readable. Unlike screenshot_region, the crop is not downscaled.",
+      inputSchema: {
+        x1: z.number().describe("X coordinate of the first point"),
+        y1: z.number().describe("Y coordinate of the first point"),
+        x2: z.number().describe("X coordinate of the second point"),
+        y2: z.number().describe("Y coordinate of the second point"),
+        width: z
+          .number()
+          .int()
+          .min(1)
+          .max(MAX_ZOOM_DIMENSION)
+          .optional()
+          .describe("Maximum output width in pixels. Defaults to native size"),
+        height: z
+          .number()
+          .int()
+          .min(1)
+          .max(MAX_ZOOM_DIMENSION)
+          .optional()
+          .describe("Maximum output height in pixels. Defaults to native size"),
+        display: displayParam,
+        ...encodingParams,
+      },
+    },
+    async ({ x1, y1, x2, y2, width, height, display, ...args }) => {
+      // Fit within whichever bounds were given, keeping the aspect ratio
+      const size =
+        width || height
+          ? {
+              width: width ?? MAX_ZOOM_DIMENSION,
+              height: height ?? MAX_ZOOM_DIMENSION,
+            }
+          : undefined;
+      const base64 = await computer.zoom(
         { x: x1, y: y1 },
         { x: x2, y: y2 },
+        size,
+        encodingFor(options, args),
+        display,
       );
+
+      const meta = await sharp(Buffer.from(base64, "base64")).metadata();
+      const factor = (meta.width ?? 0) / Math.max(1, Math.abs(x2 - x1));
       return {
-        content: [{ type: "image", data: base64, mimeType: "image/png" }],
+        content: [
+          imageContent(base64),
+          {
+            type: "text",
+            text: `Region (${Math.min(x1, x2)}, ${Math.min(y1, y2)})-(${Math.max(x1, x2)}, ${Math.max(y1, y2)}) shown at ${meta.width}x${meta.height} pixels (${factor.toFixed(2)}x).`,
+          },
+        ],
       };
     },
   );
 
-  // -- click --------------------------------------------------------------
-  server.registerTool(
+  // -- input actions ----------------------------------------------------
+  // Each action tool shares its schema and behaviour with `batch`.
+  const registerAction = (name: ActionName, description: string) => {
+    server.registerTool(
+      name,
+      {
+        description,
+        inputSchema: { ...actionShapes[name], screenshot: screenshotParam },
+      },
+      async ({ screenshot, ...args }: Record<string, unknown>) => {
+        const text = await performAction(computer, {
+          action: name,
+          ...args,
+        } as Action);
+        return actionResult(
+          computer,
+          options,
+          text,
+          screenshot as boolean | undefined,
+        );
+      },
+    );
+  };
+
+  registerAction(
     "click",
+    "Move the pointer to (x, y) and click. Hold modifiers for Ctrl+click / Shift+click; use clicks: 3 to select a paragraph.",
+  );
+  registerAction(
+    "double_click",
+    "Move the pointer to (x, y) and double-click.",
+  );
+  registerAction(
+    "scroll",
+    "Move the pointer to (x, y) and scroll by the given deltas.",
+  );
+  registerAction("type", "Type the given text as keyboard input.");
+  registerAction(
+    "keypress",
+    'Press a key combination. For combos like Ctrl+C, pass ["ctrl", "c"].',
+  );
+  registerAction("move", "Move the pointer to (x, y) without clicking.");
+  registerAction(
+    "drag",
+    "Drag along a path of points. The first point is mouse-down, the last is mouse-up.",
+  );
+  registerAction(
+    "mouse_down",
+    "Press and hold a mouse button, optionally moving to (x, y) first. Release it with mouse_up.",
+  );
+  registerAction(
+    "mouse_up",
+    "Release a held mouse button, optionally moving to (x, y) first.",
+  );
+  registerAction(
+    "key_down",
+    'Press and hold a single key (e.g. "shift") until key_up is called.',
+  );
+  registerAction("key_up", "Release a key previously pressed with key_down.");
+  registerAction("wait", "Wait for a duration in milliseconds.");
+
+  // -- batch --------------------------------------------------------------
+  server.registerTool(
+    "batch",
     {
-      description: "Move the pointer to (x, y) and click.",
+      description:
+        'Run a sequence of actions in one call, e.g. click a field, type, press Enter. Each step is an object with an "action" name (click, double_click, scroll, type, keypress, move, drag, mouse_down, mouse_up, key_down, key_up, wait) plus that tool\'s arguments. Stops at the first failing step and reports every step.',
       inputSchema: {
-        x: z.number().describe("X coordinate"),
-        y: z.number().describe("Y coordinate"),
-        button: z
-          .enum(["left", "middle", "right"])
-          .default("left")
-          .describe("Mouse button to click"),
+        actions: z
+          .array(actionSchema)
+          .min(1)
+          .max(50)
+          .describe("Actions to run in order"),
+        delay_ms: z
+          .number()
+          .min(0)
+          .default(100)
+          .describe("Delay after each step in milliseconds"),
+        screenshot: screenshotParam,
       },
     },
-    async ({ x, y, button }) => {
-      await computer.click(x, y, button);
-      return { content: [{ type: "text", text: "Clicked." }] };
+    async ({ actions, delay_ms, screenshot }) => {
+      const report: string[] = [];
+      let failed = false;
+
+      for (const [i, action] of actions.entries()) {
+        try {
+          const text = await performAction(computer, action);
+          report.push(`${i + 1}. ${action.action}: ${text}`);
+        } catch (err) {
+          const message = err instanceof Error ? err.message : String(err);
+          report.push(`${i + 1}. ${action.action}: failed: ${message}`);
+          report.push(`Stopped after step ${i + 1} of ${actions.length}.`);
+          failed = true;
+          break;
+        }
+        if (delay_ms > 0) await computer.wait(delay_ms);
+      }
+
+      return actionResult(
+        computer,
+        options,
+        report.join("\n"),
+        screenshot,
+        failed,
+      );
+    },
+  );
+
+  // -- release_all --------------------------------------------------------
+  server.registerTool(
+    "release_all",
+    {
+      description: "Release every held key and mouse button.",
+    },
+    async () => {
+      await computer.releaseAll();
+      return { content: [{ type: "text", text: "Released all inputs." }] };
     },
   );
 
-  // -- double_click -------------------------------------------------------
+  // -- start_recording / stop_recording -----------------------------------
   server.registerTool(
-    "double_click",
+    "start_recording",
     {
-      description: "Move the pointer to (x, y) and double-click.",
+      description:
+        "Start recording the screen to a video file, saved by stop_recording. The desktop is sampled into an animated WebP or GIF. The browser records WebM, but starting and stopping a recording reopens the current page in a new browser context: cookies and localStorage are kept, while other tabs, back/forward history, sessionStorage and unsaved form input are lost.",
       inputSchema: {
-        x: z.number().describe("X coordinate"),
-        y: z.number().describe("Y coordinate"),
+        fps: z
+          .number()
+          .min(0.1)
+          .max(30)
+          .optional()
+          .describe(
+            "Frames per second of desktop recordings. Defaults to the server setting (2)",
+          ),
+        format: z
+          .enum(["webp", "gif"])
+          .default("webp")
+          .describe("File format of desktop recordings"),
       },
     },
-    async ({ x, y }) => {
-      await computer.doubleClick(x, y);
-      return { content: [{ type: "text", text: "Double-clicked." }] };
+    async ({ fps, format }) => {
+      await computer.startRecording({
+        dir: options.recordingDir,
+        fps: fps ?? options.recordingFps,
+        format,
+      });
+      return { content: [{ type: "text", text: "Recording started." }] };
     },
   );
 
-  // -- scroll -------------------------------------------------------------
   server.registerTool(
-    "scroll",
+    "stop_recording",
     {
-      description: "Move the pointer to (x, y) and scroll by the given deltas.",
+      description:
+        "Stop the recording started with start_recording and return the path of the saved file. In the browser this reopens the current page, losing the same state as start_recording.",
+    },
+    async () => {
+      const recording = await computer.stopRecording();
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({
+              path: recording.path,
+              mime_type: recording.mimeType,
+              duration_ms: recording.durationMs,
+            }),
+          },
+        ],
+      };
+    },
+  );
+
+  // -- wait_for_stable_screen --------------------------------------------
+  server.registerTool(
+    "wait_for_stable_screen",
+    {
+      description:
+        "Wait until the screen stops changing (two consecutive captures differ by less than the threshold), e.g. after navigation or an animation. Returns how long it waited.",
       inputSchema: {
-        x: z.number().describe("X coordinate"),
-        y: z.number().describe("Y coordinate"),
-        scroll_x: z.number().default(0).describe("Horizontal scroll delta"),
-        scroll_y: z.number().describe("Vertical scroll delta"),
+        ...pollParams,
+        region: regionParam,
+        display: displayParam,
       },
     },
-    async ({ x, y, scroll_x, scroll_y }) => {
-      await computer.scroll(x, y, scroll_x, scroll_y);
-      return { content: [{ type: "text", text: "Scrolled." }] };
+    async ({ interval_ms, timeout_ms, threshold, region, display }) => {
+      const result = await waitForStable(
+        () => captureRegion(computer, region, display),
+        { intervalMs: interval_ms, timeoutMs: timeout_ms, threshold },
+      );
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({
+              stable: !result.timedOut,
+              waited_ms: result.waitedMs,
+              change_ratio: result.diff?.changedRatio ?? 0,
+            }),
+          },
+        ],
+      };
     },
   );
 
-  // -- type ---------------------------------------------------------------
+  // -- wait_for_change ----------------------------------------------------
   server.registerTool(
-    "type",
+    "wait_for_change",
     {
-      description: "Type the given text as keyboard input.",
+      description:
+        "Wait until the screen (or a region) changes by at least the threshold compared to when the call started. Returns how long it waited and where the change happened.",
       inputSchema: {
-        text: z.string().describe("Text to type"),
+        ...pollParams,
+        region: regionParam,
+        display: displayParam,
       },
     },
-    async ({ text }) => {
-      await computer.type(text);
-      return { content: [{ type: "text", text: "Typed." }] };
+    async ({ interval_ms, timeout_ms, threshold, region, display }) => {
+      const result = await waitForChange(
+        () => captureRegion(computer, region, display),
+        { intervalMs: interval_ms, timeoutMs: timeout_ms, threshold },
+      );
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({
+              changed: !result.timedOut,
+              waited_ms: result.waitedMs,
+              change_ratio: result.diff?.changedRatio ?? 0,
+              bounds: offsetRect(result.diff?.bounds ?? null, region),
+            }),
+          },
+        ],
+      };
     },
   );
 
-  // -- keypress -----------------------------------------------------------
+  // -- find_image / wait_for_image ---------------------------------------
   server.registerTool(
-    "keypress",
+    "find_image",
     {
       description:
-        'Press a key combination. For combos like Ctrl+C, pass ["ctrl", "c"].',
+        "Locate a known image (icon, button…) on the screen by template matching. Returns matching rectangles, their centres and scores in the same coordinate space as screenshots and click.",
+      inputSchema: templateParams,
+    },
+    async ({
+      template,
+      template_name,
+      template_scale,
+      min_score,
+      max_results,
+      region,
+      display,
+    }) => {
+      const image = await loadTemplate(options, template, template_name);
+      const matches = await findTemplate(
+        Buffer.from(await captureRegion(computer, region, display), "base64"),
+        image,
+        {
+          threshold: min_score,
+          maxResults: max_results,
+          templateScale: template_scale,
+        },
+      );
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({ matches: formatMatches(matches, region) }),
+          },
+        ],
+      };
+    },
+  );
+
+  server.registerTool(
+    "wait_for_image",
+    {
+      description:
+        "Wait until a known image appears on the screen, polling like find_image. Returns the matches and how long it waited.",
       inputSchema: {
-        keys: z
-          .array(z.string())
-          .describe('Key names, e.g. ["ctrl", "a"] or ["Enter"]'),
+        ...templateParams,
+        interval_ms: pollParams.interval_ms,
+        timeout_ms: pollParams.timeout_ms,
       },
     },
-    async ({ keys }) => {
-      await computer.keypress(keys);
-      return { content: [{ type: "text", text: "Key(s) pressed." }] };
+    async ({
+      template,
+      template_name,
+      template_scale,
+      min_score,
+      max_results,
+      region,
+      display,
+      interval_ms,
+      timeout_ms,
+    }) => {
+      const image = await loadTemplate(options, template, template_name);
+      const start = Date.now();
+      let matches: TemplateMatch[];
+      for (;;) {
+        matches = await findTemplate(
+          Buffer.from(await captureRegion(computer, region, display), "base64"),
+          image,
+          {
+            threshold: min_score,
+            maxResults: max_results,
+            templateScale: template_scale,
+          },
+        );
+        if (matches.length > 0 || Date.now() - start >= timeout_ms) break;
+        await computer.wait(interval_ms);
+      }
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({
+              found: matches.length > 0,
+              waited_ms: Date.now() - start,
+              matches: formatMatches(matches, region),
+            }),
+          },
+        ],
+      };
     },
   );
 
-  // -- move ---------------------------------------------------------------
+  // -- get_dimensions -----------------------------------------------------
   server.registerTool(
-    "move",
+    "get_dimensions",
     {
-      description: "Move the pointer to (x, y) without clicking.",
+      description: "Get the screen or viewport dimensions as [width, height].",
       inputSchema: {
-        x: z.number().describe("X coordinate"),
-        y: z.number().describe("Y coordinate"),
+        display: displayParam,
       },
     },
-    async ({ x, y }) => {
-      await computer.move(x, y);
-      return { content: [{ type: "text", text: "Moved." }] };
+    async ({ display }) => {
+      const [w, h] = await computer.getDimensions(display);
+      return {
+        content: [
+          { type: "text", text: JSON.stringify({ width: w, height: h }) },
+        ],
+      };
     },
   );
 
-  // -- drag ---------------------------------------------------------------
+  // -- clipboard ----------------------------------------------------------
   server.registerTool(
-    "drag",
+    "clipboard_get",
+    {
+      description: "Read the clipboard contents as text.",
+    },
+    async () => {
+      const text = await computer.getClipboard();
+      return { content: [{ type: "text", text }] };
+    },
+  );
+
+  server.registerTool(
+    "clipboard_set",
+    {
+      description: "Replace the clipboard contents with the given text.",
+      inputSchema: {
+        text: z.string().describe("Text to place on the clipboard"),
+      },
+    },
+    async ({ text }) => {
+      await computer.setClipboard(text);
+      return { content: [{ type: "text", text: "Clipboard set." }] };
+    },
+  );
+
+  server.registerTool(
+    "paste_text",
     {
       description:
-        "Drag along a path of points. The first point is mouse-down, the last is mouse-up.",
+        "Insert text into the focused element by setting the clipboard and pressing the paste shortcut. Much faster than type for long text.",
       inputSchema: {
-        path: z
-          .array(z.object({ x: z.number(), y: z.number() }))
-          .min(2)
-          .describe("Array of {x, y} points"),
+        text: z.string().describe("Text to paste"),
+        screenshot: screenshotParam,
       },
     },
-    async ({ path }) => {
-      await computer.drag(path);
-      return { content: [{ type: "text", text: "Dragged." }] };
+    async ({ text, screenshot }) => {
+      await computer.pasteText(text);
+      return actionResult(computer, options, "Pasted.", screenshot);
     },
   );
 
-  // -- wait ---------------------------------------------------------------
+  // -- get_cursor_position ------------------------------------------------
   server.registerTool(
-    "wait",
+    "get_cursor_position",
     {
-      description: "Wait for a duration in milliseconds.",
+      description:
+        "Get the pointer position in the same coordinate space that click accepts.",
       inputSchema: {
-        ms: z.number().default(1000).describe("Milliseconds to wait"),
+        display: displayParam,
       },
     },
-    async ({ ms }) => {
-      await computer.wait(ms);
-      return { content: [{ type: "text", text: `Waited ${ms}ms.` }] };
+    async ({ display }) => {
+      const { x, y } = await computer.getCursorPosition(display);
+      const [w, h] = await computer.getDimensions(display);
+      const { id } = await computer.getDisplay(display);
+      const visible = x >= 0 && x <= w && y >= 0 && y <= h;
+      const result = { x, y, display: id, on_display: visible };
+      return {
+        content: [{ type: "text", text: JSON.stringify(result) }],
+      };
     },
   );
 
-  // -- get_dimensions -----------------------------------------------------
+  // -- list_displays ------------------------------------------------------
   server.registerTool(
-    "get_dimensions",
+    "list_displays",
     {
-      description: "Get the screen or viewport dimensions as [width, height].",
+      description:
+        "List the available displays with their ids, position in the virtual desktop and scaled dimensions. Coordinates passed to other tools are relative to the targeted display.",
     },
     async () => {
+      const displays = await computer.listDisplays();
+      const selected = await computer.getDisplay();
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({ selected: selected.id, displays }),
+          },
+        ],
+      };
+    },
+  );
+
+  // -- select_display -----------------------------------------------------
+  server.registerTool(
+    "select_display",
+    {
+      description:
+        "Target a display for all subsequent screenshots and actions in this session.",
+      inputSchema: {
+        id: z.number().int().describe("Display id from list_displays"),
+      },
+    },
+    async ({ id }) => {
+      await computer.selectDisplay(id);
       const [w, h] = await computer.getDimensions();
       return {
         content: [
-          { type: "text", text: JSON.stringify({ width: w, height: h }) },
+          {
+            type: "text",
+            text: `Selected display ${id} (${w}x${h}).`,
+          },
         ],
       };
     },
@@ -235,6 +1430,19 @@ export function registerTools(server: McpServer, computer: Computer): void {
       };
     },
   );
+
+  // -- get_budget ---------------------------------------------------------
+  server.registerTool(
+    "get_budget",
+    {
+      description:
+        "Get how many actions, milliseconds of wait and typed characters this session has used and has left, plus actions in the last minute. A limit of null means unlimited.",
+    },
+    async () => {
+      const status = actionBudget(computer, options).status();
+      return { content: [{ type: "text", text: JSON.stringify(status) }] };
+    },
+  );
 }
 
 // ---------------------------------------------------------------------------
@@ -244,18 +1452,22 @@ export function registerTools(server: McpServer, computer: Computer): void {
 export function registerPlaywrightTools(
   server: McpServer,
   computer: PlaywrightComputer,
+  options: ToolOptions = {},
 ): void {
+  server = withMiddleware(server, toolMiddleware(server, computer, options));
+
   server.registerTool(
     "goto",
     {
       description: "Navigate the browser to a URL.",
       inputSchema: {
         url: z.string().url().describe("URL to navigate to"),
+        screenshot: screenshotParam,
       },
     },
-    async ({ url }) => {
+    async ({ url, screenshot }) => {
       await computer.goto(url);
-      return { content: [{ type: "text", text: `Navigated to ${url}` }] };
+      return actionResult(computer, options, `Navigated to ${url}`, screenshot);
     },
   );
 
@@ -263,10 +1475,13 @@ export function registerPlaywrightTools(
     "back",
     {
       description: "Go back in browser history.",
+      inputSchema: {
+        screenshot: screenshotParam,
+      },
     },
-    async () => {
+    async ({ screenshot }) => {
       await computer.back();
-      return { content: [{ type: "text", text: "Went back." }] };
+      return actionResult(computer, options, "Went back.", screenshot);
     },
   );
 
@@ -274,10 +1489,13 @@ export function registerPlaywrightTools(
     "forward",
     {
       description: "Go forward in browser history.",
+      inputSchema: {
+        screenshot: screenshotParam,
+      },
     },
-    async () => {
+    async ({ screenshot }) => {
       await computer.forward();
-      return { content: [{ type: "text", text: "Went forward." }] };
+      return actionResult(computer, options, "Went forward.", screenshot);
     },
   );
 
@@ -293,4 +1511,77 @@ export function registerPlaywrightTools(
       };
     },
   );
+
+  server.registerTool(
+    "get_accessibility_tree",
+    {
+      description:
+        'Get a compact accessibility tree of the current page: one line per element with its role, name, value, states, a stable ref and its bounding box "@(x,y wxh)" in screenshot coordinates. Click the centre of a box to hit that element.',
+      inputSchema: {
+        viewport_only: z
+          .boolean()
+          .default(true)
+          .describe("Omit elements entirely outside the visible viewport"),
+        root: z
+          .string()
+          .optional()
+          .describe('Only return the subtree under this ref, e.g. "e12"'),
+      },
+    },
+    async ({ viewport_only, root }) => {
+      const nodes = await computer.getAccessibilityTree({
+        viewportOnly: viewport_only,
+        root,
+      });
+      const text =
+        nodes.length > 0
+          ? formatAccessibilityTree(nodes)
+          : "No accessible elements.";
+      return { content: [{ type: "text", text }] };
+    },
+  );
+
+  server.registerTool(
+    "screenshot_with_marks",
+    {
+      description:
+        "Take a screenshot with every visible interactive element (links, buttons, inputs, clickable elements) boxed and numbered, plus a legend of mark numbers, element descriptions and centre points. Use click_mark to click one by number.",
+    },
+    async () => {
+      const { image, marks } = await computer.screenshotWithMarks(
+        options.imageEncoding,
+      );
+      const legend =
+        marks.length > 0
+          ? formatMarkLegend(marks)
+          : "No interactive elements in view.";
+      return {
+        content: [imageContent(image), { type: "text", text: legend }],
+      };
+    },
+  );
+
+  server.registerTool(
+    "click_mark",
+    {
+      description:
+        "Click the element with the given number from the last screenshot_with_marks.",
+      inputSchema: {
+        mark: z.number().int().min(1).describe("Mark number to click"),
+        button: actionShapes.click.button,
+        modifiers: actionShapes.click.modifiers,
+        clicks: actionShapes.click.clicks,
+        screenshot: screenshotParam,
+      },
+    },
+    async ({ mark, button, modifiers, clicks, screenshot }) => {
+      await computer.clickMark(mark, button, { modifiers, clicks });
+      return actionResult(
+        computer,
+        options,
+        `Clicked mark ${mark}.`,
+        screenshot,
+      );
+    },
+  );
 }
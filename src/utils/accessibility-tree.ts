@@ -0,0 +1,386 @@
+import type { Page } from "playwright";
+import type { Rect } from "../computers/computer.js";
+
+/**
+ * Compact accessibility snapshot of a page, built in the page itself.
+ *
+ * Playwright no longer exposes the browser's accessibility tree directly, so
+ * the snapshot is derived from the DOM: explicit and implicit ARIA roles,
+ * accessible names, values and common states. Generic containers (`div`,
+ * `span`…) are flattened away so only meaningful nodes remain.
+ *
+ * Every node carries a `ref` that stays the same for as long as its element
+ * lives in the page, so a model can refer back to it across snapshots.
+ */
+
+export interface AccessibilityNode {
+  /** Stable element reference, e.g. `"e12"`. */
+  ref: string;
+  role: string;
+  name?: string;
+  value?: string;
+
+  /** Active states such as `checked`, `disabled`, `expanded` or `focused`. */
+  states?: string[];
+
+  /** Bounding box in viewport CSS pixels (callers map it to their space). */
+  bounds: Rect;
+  children?: AccessibilityNode[];
+}
+
+export interface AccessibilitySnapshotOptions {
+  /** Drop subtrees that lie entirely outside the viewport. Default `true`. */
+  viewportOnly?: boolean;
+
+  /** Only return the subtree under this ref. */
+  root?: string;
+
+  /** Truncate names and values to this many characters. Default `100`. */
+  maxTextLength?: number;
+}
+
+/** Take a snapshot of the page's main frame. */
+export async function snapshotAccessibilityTree(
+  page: Page,
+  options: AccessibilitySnapshotOptions = {},
+): Promise<AccessibilityNode[]> {
+  return page.evaluate(snapshotInPage, {
+    viewportOnly: options.viewportOnly ?? true,
+    root: options.root ?? null,
+    maxTextLength: options.maxTextLength ?? 100,
+  });
+}
+
+/**
+ * Render nodes as an indented outline, one node per line:
+ *
+ *     - button "Sign in" [ref=e7] @(412,230 96x32)
+ */
+export function formatAccessibilityTree(
+  nodes: AccessibilityNode[],
+  depth = 0,
+): string {
+  const quote = (s: string) => JSON.stringify(s);
+  return nodes
+    .map((node) => {
+      const { x, y, width, height } = node.bounds;
+      let line = `${"  ".repeat(depth)}- ${node.role}`;
+      if (node.name) line += ` ${quote(node.name)}`;
+      if (node.value !== undefined) line += ` value=${quote(node.value)}`;
+      for (const state of node.states ?? []) line += ` [${state}]`;
+      line += ` [ref=${node.ref}]`;
+      line += ` @(${Math.round(x)},${Math.round(y)} ${Math.round(width)}x${Math.round(height)})`;
+
+      const children = node.children?.length
+        ? "\n" + formatAccessibilityTree(node.children, depth + 1)
+        : "";
+      return line + children;
+    })
+    .join("\n");
+}
+
+// ---------------------------------------------------------------------------
+// In-page implementation
+// ---------------------------------------------------------------------------
+
+/**
+ * Runs inside the page via `page.evaluate`, so it must be self-contained:
+ * no imports and no references to anything outside the function body.
+ */
+function snapshotInPage(options: {
+  viewportOnly: boolean;
+  root: string | null;
+  maxTextLength: number;
+}): AccessibilityNode[] {
+  // Refs survive between snapshots for as long as the element does
+  const w = window as unknown as {
+    __computermateRefs?: { map: WeakMap<Element, string>; next: number };
+  };
+  const refs = (w.__computermateRefs ??= { map: new WeakMap(), next: 1 });
+  const refOf = (el: Element): string => {
+    let ref = refs.map.get(el);
+    if (!ref) {
+      ref = `e${refs.next++}`;
+      refs.map.set(el, ref);
+      el.setAttribute("data-computermate-ref", ref);
+    }
+    return ref;
+  };
+
+  const INPUT_ROLES: Record<string, string> = {
+    button: "button",
+    submit: "button",
+    reset: "button",
+    image: "button",
+    checkbox: "checkbox",
+    radio: "radio",
+    range: "slider",
+    number: "spinbutton",
+    search: "searchbox",
+  };
+  const TAG_ROLES: Record<string, string> = {
+    article: "article",
+    aside: "complementary",
+    button: "button",
+    dialog: "dialog",
+    fieldset: "group",
+    details: "group",
+    footer: "contentinfo",
+    form: "form",
+    h1: "heading",
+    h2: "heading",
+    h3: "heading",
+    h4: "heading",
+    h5: "heading",
+    h6: "heading",
+    header: "banner",
+    hr: "separator",
+    iframe: "iframe",
+    li: "listitem",
+    main: "main",
+    menu: "list",
+    meter: "meter",
+    nav: "navigation",
+    ol: "list",
+    optgroup: "group",
+    option: "option",
+    p: "paragraph",
+    progress: "progressbar",
+    summary: "button",
+    table: "table",
+    td: "cell",
+    textarea: "textbox",
+    th: "columnheader",
+    tr: "row",
+    ul: "list",
+  };
+  // Roles whose accessible name comes from their text content
+  const NAME_FROM_CONTENT = new Set([
+    "button",
+    "cell",
+    "checkbox",
+    "columnheader",
+    "heading",
+    "link",
+    "menuitem",
+    "menuitemcheckbox",
+    "menuitemradio",
+    "option",
+    "radio",
+    "row",
+    "rowheader",
+    "switch",
+    "tab",
+    "tooltip",
+    "treeitem",
+  ]);
+  const SKIPPED_TAGS = new Set([
+    "head",
+    "script",
+    "style",
+    "noscript",
+    "template",
+    "svg",
+  ]);
+
+  const clip = (s: string): string => {
+    const text = s.replace(/\s+/g, " ").trim();
+    return text.length > options.maxTextLength
+      ? text.slice(0, options.maxTextLength - 1) + "…"
+      : text;
+  };
+
+  const roleOf = (el: Element): string | null => {
+    const explicit = el.getAttribute("role")?.trim().split(/\s+/)[0];
+    if (explicit && explicit !== "none" && explicit !== "presentation") {
+      return explicit;
+    }
+    if (explicit) return null;
+
+    const tag = el.tagName.toLowerCase();
+    if (tag === "a" || tag === "area") {
+      return el.hasAttribute("href") ? "link" : null;
+    }
+    if (tag === "img") {
+      return el.getAttribute("alt") === "" ? null : "img";
+    }
+    if (tag === "input") {
+      const type = (el as HTMLInputElement).type;
+      if (type === "hidden") return null;
+      return INPUT_ROLES[type] ?? "textbox";
+    }
+    if (tag === "select") {
+      const select = el as HTMLSelectElement;
+      return select.multiple || select.size > 1 ? "listbox" : "combobox";
+    }
+    if (tag === "section") {
+      return el.hasAttribute("aria-label") || el.hasAttribute("aria-labelledby")
+        ? "region"
+        : null;
+    }
+    return TAG_ROLES[tag] ?? null;
+  };
+
+  const nameOf = (el: Element, role: string): string => {
+    const labelledBy = el.getAttribute("aria-labelledby");
+    if (labelledBy) {
+      const text = labelledBy
+        .split(/\s+/)
+        .map((id) => document.getElementById(id)?.textContent ?? "")
+        .join(" ");
+      if (text.trim()) return clip(text);
+    }
+    const label = el.getAttribute("aria-label");
+    if (label?.trim()) return clip(label);
+
+    const labels = (el as HTMLInputElement).labels;
+    if (labels && labels.length > 0) {
+      return clip(Array.from(labels, (l) => l.textContent ?? "").join(" "));
+    }
+    if (el.tagName === "IMG") return clip(el.getAttribute("alt") ?? "");
+    if (el.tagName === "INPUT") {
+      const input = el as HTMLInputElement;
+      if (["button", "submit", "reset"].includes(input.type)) {
+        return clip(input.value);
+      }
+    }
+    if (NAME_FROM_CONTENT.has(role)) {
+      const text = clip((el as HTMLElement).innerText ?? el.textContent ?? "");
+      if (text) return text;
+    }
+    return clip(
+      el.getAttribute("title") ?? el.getAttribute("placeholder") ?? "",
+    );
+  };
+
+  const valueOf = (el: Element): string | undefined => {
+    if (el instanceof HTMLInputElement) {
+      if (["checkbox", "radio", "button", "submit", "reset"].includes(el.type))
+        return undefined;
+      return el.type === "password" ? "•".repeat(el.value.length) : el.value;
+    }
+    if (el instanceof HTMLTextAreaElement) return clip(el.value);
+    if (el instanceof HTMLSelectElement) {
+      return clip(Array.from(el.selectedOptions, (o) => o.text).join(", "));
+    }
+    return el.getAttribute("aria-valuenow") ?? undefined;
+  };
+
+  const statesOf = (el: Element): string[] => {
+    const states: string[] = [];
+    const aria = (name: string) => el.getAttribute(`aria-${name}`);
+    const checked =
+      (el instanceof HTMLInputElement && el.checked) ||
+      aria("checked") === "true";
+    if (checked) states.push("checked");
+    if (aria("checked") === "mixed") states.push("mixed");
+    if ((el as HTMLInputElement).disabled || aria("disabled") === "true") {
+      states.push("disabled");
+    }
+    if (aria("expanded") === "true") states.push("expanded");
+    if (aria("expanded") === "false") states.push("collapsed");
+    if (aria("selected") === "true" || (el as HTMLOptionElement).selected) {
+      states.push("selected");
+    }
+    if (aria("pressed") === "true") states.push("pressed");
+    if ((el as HTMLInputElement).required || aria("required") === "true") {
+      states.push("required");
+    }
+    if (document.activeElement === el) states.push("focused");
+    if (/^H[1-6]$/.test(el.tagName)) states.push(`level=${el.tagName[1]}`);
+    return states;
+  };
+
+  const boundsOf = (rect: DOMRect) => ({
+    x: rect.x,
+    y: rect.y,
+    width: rect.width,
+    height: rect.height,
+  });
+
+  const inViewport = (r: {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+  }) =>
+    r.x + r.width > 0 &&
+    r.y + r.height > 0 &&
+    r.x < window.innerWidth &&
+    r.y < window.innerHeight;
+
+  const isHidden = (el: Element): boolean => {
+    if (el.getAttribute("aria-hidden") === "true") return true;
+    const style = getComputedStyle(el);
+    return style.display === "none" || style.visibility === "hidden";
+  };
+
+  /** Snapshot the children of a node, hoisting through generic elements. */
+  const walkChildren = (parent: Element, namedByContent: boolean) => {
+    const nodes: AccessibilityNode[] = [];
+    // Follow the rendered tree: shadow roots replace light children, which
+    // reappear where they are slotted
+    const slotted =
+      parent instanceof HTMLSlotElement ? parent.assignedNodes() : [];
+    const childNodes = parent.shadowRoot
+      ? Array.from(parent.shadowRoot.childNodes)
+      : slotted.length > 0
+        ? slotted
+        : Array.from(parent.childNodes);
+
+    for (const child of childNodes) {
+      if (child.nodeType === Node.TEXT_NODE) {
+        // Text already folded into the parent's name adds nothing
+        if (namedByContent) continue;
+        const text = clip(child.textContent ?? "");
+        if (!text) continue;
+        const range = document.createRange();
+        range.selectNodeContents(child);
+        const bounds = boundsOf(range.getBoundingClientRect());
+        if (options.viewportOnly && !inViewport(bounds)) continue;
+        nodes.push({
+          ref: refOf(parent),
+          role: "text",
+          name: text,
+          bounds,
+        });
+      } else if (child instanceof Element) {
+        nodes.push(...walk(child, namedByContent));
+      }
+    }
+    return nodes;
+  };
+
+  const walk = (el: Element, namedByContent: boolean): AccessibilityNode[] => {
+    if (SKIPPED_TAGS.has(el.tagName.toLowerCase()) || isHidden(el)) return [];
+
+    const role = roleOf(el);
+    if (!role) return walkChildren(el, namedByContent);
+
+    const byContent = NAME_FROM_CONTENT.has(role);
+    const bounds = boundsOf(el.getBoundingClientRect());
+    const children = walkChildren(el, byContent);
+    if (options.viewportOnly && !inViewport(bounds) && children.length === 0) {
+      return [];
+    }
+
+    const node: AccessibilityNode = { ref: refOf(el), role, bounds };
+    const name = nameOf(el, role);
+    if (name) node.name = name;
+    const value = valueOf(el);
+    if (value !== undefined) node.value = value;
+    const states = statesOf(el);
+    if (states.length > 0) node.states = states;
+    if (children.length > 0) node.children = children;
+    return [node];
+  };
+
+  if (options.root) {
+    const el = document.querySelector(
+      `[data-computermate-ref="${options.root}"]`,
+    );
+    if (!el) throw new Error(`No element with ref ${options.root}`);
+    return walk(el, false);
+  }
+  return document.body ? walk(document.body, false) : [];
+}
@@ -0,0 +1,243 @@
+import { actionShapes } from "../actions.js";
+
+export interface BudgetLimits {
+  /** Most actions in the session. */
+  maxActions?: number;
+
+  /** Most actions in any 60-second window. */
+  maxActionsPerMinute?: number;
+
+  /**
+   * Most milliseconds spent waiting, summed over the session: `wait`, the
+   * pauses between `batch` steps and the time the `wait_for_*` tools poll.
+   */
+  maxWaitMs?: number;
+
+  /** Most characters entered with `type` and `paste_text`. */
+  maxTypedChars?: number;
+}
+
+export type BudgetName =
+  "actions" | "actions_per_minute" | "wait_ms" | "typed_chars";
+
+/** Use of one budget. `limit` and `remaining` are `null` when unlimited. */
+export interface BudgetLine {
+  used: number;
+  limit: number | null;
+  remaining: number | null;
+}
+
+export type BudgetStatus = Record<BudgetName, BudgetLine>;
+
+/** Why a call was refused, as returned to the client. */
+export interface BudgetExceeded {
+  error: "budget_exhausted";
+  budget: BudgetName;
+  message: string;
+
+  /** When the call would fit within the per-minute limit again. */
+  retry_after_ms?: number;
+  status: BudgetStatus;
+}
+
+/**
+ * Tools that act on the computer, besides the batchable actions. Looking at
+ * the screen is free.
+ */
+const ACTION_TOOLS = new Set<string>([
+  ...Object.keys(actionShapes),
+  "paste_text",
+  "click_mark",
+  "goto",
+  "back",
+  "forward",
+]);
+
+/** Tools that poll the screen for up to their `timeout_ms`. */
+const POLLING_TOOLS = new Set<string>([
+  "wait_for_stable_screen",
+  "wait_for_change",
+  "wait_for_image",
+]);
+
+const MINUTE_MS = 60_000;
+
+interface Cost {
+  actions: number;
+  waitMs: number;
+  typedChars: number;
+}
+
+/**
+ * What one tool call draws from the budget; each step of a batch counts.
+ * Polling tools are charged their whole timeout up front, as they may use it
+ * all, and given back what they did not use by {@link ActionBudget.settle}.
+ */
+function costOf(tool: string, args: Record<string, unknown>): Cost {
+  const cost: Cost = { actions: 0, waitMs: 0, typedChars: 0 };
+  const steps =
+    tool === "batch" && Array.isArray(args.actions)
+      ? (args.actions as Record<string, unknown>[]).map(
+          (action) => [String(action.action), action] as const,
+        )
+      : [[tool, args] as const];
+  const waitFor = (ms: unknown) => {
+    if (typeof ms === "number") cost.waitMs += Math.max(0, ms);
+  };
+
+  if (POLLING_TOOLS.has(tool)) waitFor(args.timeout_ms);
+  // The batch pauses after every step
+  if (tool === "batch" && typeof args.delay_ms === "number") {
+    waitFor(args.delay_ms * steps.length);
+  }
+
+  for (const [name, step] of steps) {
+    if (!ACTION_TOOLS.has(name)) continue;
+    cost.actions++;
+    if (name === "wait") waitFor(step.ms);
+    if (
+      (name === "type" || name === "paste_text") &&
+      typeof step.text === "string"
+    ) {
+      cost.typedChars += step.text.length;
+    }
+  }
+  return cost;
+}
+
+/**
+ * Limits on what a session may do: actions in total and per minute, time
+ * spent waiting and characters typed. A call that would go over a limit is
+ * refused as a whole and charged nothing.
+ */
+export class ActionBudget {
+  private actions = 0;
+  private waitMs = 0;
+  private typedChars = 0;
+
+  /** Times of the actions in the last minute, oldest first. */
+  private readonly recent: number[] = [];
+
+  constructor(
+    private readonly limits: BudgetLimits = {},
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  /**
+   * Charge a tool call to the budget. Returns why it does not fit, or `null`
+   * once charged.
+   */
+  charge(tool: string, args: Record<string, unknown>): BudgetExceeded | null {
+    const cost = costOf(tool, args);
+    if (cost.actions === 0 && cost.waitMs === 0) return null;
+
+    const now = this.now();
+    this.prune(now);
+    const { maxActions, maxActionsPerMinute, maxWaitMs, maxTypedChars } =
+      this.limits;
+
+    if (maxActions !== undefined && this.actions + cost.actions > maxActions) {
+      return this.exceeded(
+        "actions",
+        this.actions >= maxActions
+          ? `all ${maxActions} actions of this session are used up.`
+          : `${cost.actions} actions exceed the ${maxActions - this.actions} left in this session.`,
+      );
+    }
+
+    if (
+      maxActionsPerMinute !== undefined &&
+      this.recent.length + cost.actions > maxActionsPerMinute
+    ) {
+      if (cost.actions > maxActionsPerMinute) {
+        return this.exceeded(
+          "actions_per_minute",
+          `${cost.actions} actions exceed the limit of ${maxActionsPerMinute} per minute.`,
+        );
+      }
+      // Wait for enough of the recent actions to drop out of the window
+      const expiring = this.recent.length + cost.actions - maxActionsPerMinute;
+      const retryAfter = this.recent[expiring - 1] + MINUTE_MS - now;
+      return this.exceeded(
+        "actions_per_minute",
+        `the limit of ${maxActionsPerMinute} actions per minute is reached; retry in ${Math.ceil(retryAfter / 1000)} s.`,
+        retryAfter,
+      );
+    }
+
+    if (maxWaitMs !== undefined && this.waitMs + cost.waitMs > maxWaitMs) {
+      return this.exceeded(
+        "wait_ms",
+        `waiting ${cost.waitMs} ms exceeds the ${maxWaitMs - this.waitMs} ms of wait time left.`,
+      );
+    }
+
+    if (
+      maxTypedChars !== undefined &&
+      this.typedChars + cost.typedChars > maxTypedChars
+    ) {
+      return this.exceeded(
+        "typed_chars",
+        `typing ${cost.typedChars} characters exceeds the ${maxTypedChars - this.typedChars} left.`,
+      );
+    }
+
+    this.actions += cost.actions;
+    this.waitMs += cost.waitMs;
+    this.typedChars += cost.typedChars;
+    for (let i = 0; i < cost.actions; i++) this.recent.push(now);
+    return null;
+  }
+
+  /**
+   * Settle a call charged by {@link charge} once it has run for `elapsedMs`:
+   * a polling tool gets back the part of its timeout it did not wait.
+   */
+  settle(tool: string, args: Record<string, unknown>, elapsedMs: number): void {
+    if (!POLLING_TOOLS.has(tool) || typeof args.timeout_ms !== "number") {
+      return;
+    }
+    const charged = Math.max(0, args.timeout_ms);
+    const unused = Math.max(0, charged - Math.max(0, elapsedMs));
+    this.waitMs = Math.max(0, this.waitMs - unused);
+  }
+
+  /** What has been used and what is left of each budget. */
+  status(): BudgetStatus {
+    this.prune(this.now());
+    const line = (used: number, limit: number | undefined): BudgetLine => ({
+      used,
+      limit: limit ?? null,
+      remaining: limit === undefined ? null : Math.max(0, limit - used),
+    });
+    return {
+      actions: line(this.actions, this.limits.maxActions),
+      actions_per_minute: line(
+        this.recent.length,
+        this.limits.maxActionsPerMinute,
+      ),
+      wait_ms: line(this.waitMs, this.limits.maxWaitMs),
+      typed_chars: line(this.typedChars, this.limits.maxTypedChars),
+    };
+  }
+
+  private prune(now: number): void {
+    while (this.recent.length > 0 && this.recent[0] <= now - MINUTE_MS) {
+      this.recent.shift();
+    }
+  }
+
+  private exceeded(
+    budget: BudgetName,
+    message: string,
+    retryAfterMs?: number,
+  ): BudgetExceeded {
+    return {
+      error: "budget_exhausted",
+      budget,
+      message: `Budget exhausted: ${message}`,
+      ...(retryAfterMs !== undefined && { retry_after_ms: retryAfterMs }),
+      status: this.status(),
+    };
+  }
+}
@@ -0,0 +1,149 @@
+import { spawn } from "node:child_process";
+import type { Readable } from "node:stream";
+
+/**
+ * System clipboard access through the platform's command-line tools:
+ * `pbcopy`/`pbpaste` on macOS, PowerShell on Windows and the X11 CLIPBOARD
+ * selection via `xclip` (or `xsel` as a fallback) on Linux.
+ */
+
+interface ClipboardCommand {
+  command: string;
+  args: string[];
+  /** stderr of a failed read that only means the clipboard is empty. */
+  empty?: RegExp;
+}
+
+/** How long a clipboard tool may run before it is killed. */
+const TIMEOUT_MS = 5000;
+
+const READ_COMMANDS: Record<string, ClipboardCommand[]> = {
+  darwin: [{ command: "pbpaste", args: [] }],
+  win32: [
+    {
+      command: "powershell.exe",
+      args: ["-NoProfile", "-Command", "Get-Clipboard -Raw"],
+    },
+  ],
+  linux: [
+    {
+      command: "xclip",
+      args: ["-selection", "clipboard", "-o"],
+      empty: /target \S+ not available/,
+    },
+    { command: "xsel", args: ["--clipboard", "--output"] },
+  ],
+};
+
+const WRITE_COMMANDS: Record<string, ClipboardCommand[]> = {
+  darwin: [{ command: "pbcopy", args: [] }],
+  win32: [
+    {
+      command: "powershell.exe",
+      args: [
+        "-NoProfile",
+        "-Command",
+        "Set-Clipboard -Value ([Console]::In.ReadToEnd())",
+      ],
+    },
+  ],
+  linux: [
+    { command: "xclip", args: ["-selection", "clipboard", "-i"] },
+    { command: "xsel", args: ["--clipboard", "--input"] },
+  ],
+};
+
+/** Thrown when a clipboard tool is not installed. */
+class MissingCommandError extends Error {}
+
+function run(cmd: ClipboardCommand, input?: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    // xclip forks to keep serving the selection, and the fork inherits any
+    // piped stdout, so only stdin is piped when writing and we resolve on
+    // "exit" rather than "close".
+    const writing = input !== undefined;
+    const child = spawn(cmd.command, cmd.args, {
+      stdio: writing
+        ? ["pipe", "ignore", "ignore"]
+        : ["ignore", "pipe", "pipe"],
+      timeout: TIMEOUT_MS,
+    });
+
+    let output = "";
+    let errors = "";
+    child.stdout?.setEncoding("utf8");
+    child.stdout?.on("data", (chunk: string) => (output += chunk));
+    child.stderr?.setEncoding("utf8");
+    child.stderr?.on("data", (chunk: string) => (errors += chunk));
+
+    child.on("error", (err: NodeJS.ErrnoException) => {
+      reject(
+        err.code === "ENOENT" ? new MissingCommandError(cmd.command) : err,
+      );
+    });
+    child.on("exit", async (code, signal) => {
+      if (signal) {
+        reject(
+          new Error(
+            child.killed
+              ? `${cmd.command} did not finish within ${TIMEOUT_MS} ms`
+              : `${cmd.command} was stopped by ${signal}`,
+          ),
+        );
+        return;
+      }
+
+      // Give buffered output a chance to drain before looking at it
+      await Promise.all([drained(child.stdout), drained(child.stderr)]);
+      if (code === 0) {
+        resolve(output);
+      } else if (cmd.empty?.test(errors)) {
+        resolve("");
+      } else {
+        reject(new Error(`${cmd.command} exited with code ${code}`));
+      }
+    });
+
+    if (writing) {
+      child.stdin?.end(input);
+    }
+  });
+}
+
+function drained(stream: Readable | null): Promise<void> {
+  return new Promise((resolve) => {
+    if (!stream || stream.readableEnded) resolve();
+    else stream.once("end", resolve);
+  });
+}
+
+async function runFirstAvailable(
+  commands: ClipboardCommand[] | undefined,
+  input?: string,
+): Promise<string> {
+  if (!commands) {
+    throw new Error(`Clipboard is not supported on ${process.platform}`);
+  }
+
+  for (const cmd of commands) {
+    try {
+      return await run(cmd, input);
+    } catch (err) {
+      if (err instanceof MissingCommandError) continue;
+      throw err;
+    }
+  }
+
+  const names = commands.map((c) => c.command).join(" or ");
+  throw new Error(`No clipboard tool found. Install ${names}.`);
+}
+
+/** Read the system clipboard as text. */
+export async function readClipboard(): Promise<string> {
+  return runFirstAvailable(READ_COMMANDS[process.platform]);
+}
+
+/** Replace the system clipboard contents with `text`. */
+export async function writeClipboard(text: string): Promise<void> {
+  await runFirstAvailable(WRITE_COMMANDS[process.platform], text);
+}
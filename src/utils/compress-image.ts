@@ -1,47 +1,81 @@
 import sharp from "sharp";
+import type { ImageEncoding, ImageFormat } from "../computers/computer.js";
 
 const MAX_IMAGE_SIZE = 5 * 1024 * 1024; // 5MB
 
+const DEFAULT_QUALITY = 80;
+
 // Progressive quality reduction steps (maintaining original dimensions)
 const COMPRESSION_STEPS = [80, 70, 60, 50, 40, 30];
 
+const MIN_QUALITY = 20;
+
 /**
- * Compresses an image buffer to be under 5MB.
- * Always attempts maximum PNG optimization first.
- * Falls back to JPEG with progressive quality reduction if PNG remains too large.
+ * Encodes an image buffer according to `encoding`, keeping it under the
+ * byte budget.
+ * PNG is always written with maximum optimization. If the result is too
+ * large, falls back to a lossy format with progressive quality reduction:
+ * JPEG for PNG, the requested format otherwise.
+ *
+ * `resize` fits the image inside the given box, keeping its aspect ratio. It
+ * only shrinks images unless `enlarge` is set.
  */
 export async function compressImage(
   buffer: Buffer,
-  resize?: { width: number; height: number },
+  resize?: { width: number; height: number; enlarge?: boolean },
+  encoding: ImageEncoding = {},
 ): Promise<Buffer> {
+  const format = encoding.format ?? "png";
+  const quality = encoding.quality ?? DEFAULT_QUALITY;
+  const maxBytes = encoding.maxBytes ?? MAX_IMAGE_SIZE;
   let sharpInstance = sharp(buffer);
 
   if (resize) {
     sharpInstance = sharpInstance.resize(resize.width, resize.height, {
       fit: "inside",
-      withoutEnlargement: true,
+      withoutEnlargement: !resize.enlarge,
     });
   }
+  if (encoding.grayscale) {
+    // Single-channel output, so the savings carry through to the encoding
+    sharpInstance = sharpInstance.grayscale().toColourspace("b-w");
+  }
 
-  // Always optimize PNG first
-  const opng = await sharpInstance
-    .clone()
-    .png({ compressionLevel: 9 })
-    .toBuffer();
+  const encode = (fmt: ImageFormat, q: number) => {
+    const img = sharpInstance.clone();
+    if (fmt === "png") return img.png({ compressionLevel: 9 }).toBuffer();
+    if (fmt === "webp") return img.webp({ quality: q }).toBuffer();
+    return img.jpeg({ quality: q }).toBuffer();
+  };
 
-  if (opng.length <= MAX_IMAGE_SIZE) {
-    return opng;
+  const first = await encode(format, quality);
+  if (first.length <= maxBytes) {
+    return first;
   }
 
-  // If optimized PNG is still over 5MB, try progressive JPEG quality reduction
-  for (const quality of COMPRESSION_STEPS) {
-    const jpeg = await sharpInstance.clone().jpeg({ quality }).toBuffer();
+  // Too large: step down the quality of a lossy format until it fits
+  const lossy = format === "png" ? "jpeg" : format;
+  for (const q of COMPRESSION_STEPS) {
+    if (lossy === format && q >= quality) continue;
+    const smaller = await encode(lossy, q);
 
-    if (jpeg.length <= MAX_IMAGE_SIZE) {
-      return jpeg;
+    if (smaller.length <= maxBytes) {
+      return smaller;
     }
   }
 
-  // Absolute fallback: lowest quality JPEG
-  return sharpInstance.clone().jpeg({ quality: 20 }).toBuffer();
+  // Absolute fallback: lowest quality
+  return encode(lossy, MIN_QUALITY);
+}
+
+/** Detect the MIME type of an encoded image from its magic bytes. */
+export function imageMimeType(image: Buffer): string {
+  if (image[0] === 0xff && image[1] === 0xd8) return "image/jpeg";
+  if (
+    image.toString("ascii", 0, 4) === "RIFF" &&
+    image.toString("ascii", 8, 12) === "WEBP"
+  ) {
+    return "image/webp";
+  }
+  return "image/png";
 }
@@ -0,0 +1,165 @@
+import type { Point } from "../computers/computer.js";
+
+/**
+ * How real coordinates are snapped to whole pixels.
+ *
+ * - `"round"` (default) rounds to the nearest pixel.
+ * - `"floor"` / `"ceil"` always round down / up.
+ * - `"none"` keeps fractional values (useful for Playwright, which accepts them).
+ */
+export type RoundingPolicy = "round" | "floor" | "ceil" | "none";
+
+export interface CoordinateSpaceOptions {
+  /**
+   * Maximum scaled size in the format "WIDTHxHEIGHT". Either side may be
+   * omitted or `0` (e.g. `"1280x"`) to only limit the other one.
+   */
+  maxScalingDimension?: string;
+
+  /** Rounding applied when mapping between spaces. Default `"round"`. */
+  rounding?: RoundingPolicy;
+}
+
+/**
+ * Parses a "WIDTHxHEIGHT" string into its limits. Missing or non-positive
+ * sides are returned as `null`.
+ */
+export function parseScalingDimension(value?: string): {
+  maxWidth: number | null;
+  maxHeight: number | null;
+} {
+  if (!value) return { maxWidth: null, maxHeight: null };
+
+  const [w, h] = value.split("x").map((s) => parseInt(s, 10));
+  return {
+    maxWidth: w > 0 ? w : null,
+    maxHeight: h > 0 ? h : null,
+  };
+}
+
+/**
+ * Maps between the real pixel space of a screen (or viewport) and the scaled
+ * space exposed to the model.
+ *
+ * The scaled space fits inside `maxScalingDimension` while preserving aspect
+ * ratio and is never larger than the real one. Both spaces have their origin
+ * at the top-left corner; bounds are inclusive on all sides.
+ */
+export class CoordinateSpace {
+  readonly realWidth: number;
+  readonly realHeight: number;
+  readonly scaledWidth: number;
+  readonly scaledHeight: number;
+  readonly scalingFactor: number;
+  readonly rounding: RoundingPolicy;
+
+  constructor(
+    realWidth: number,
+    realHeight: number,
+    options: CoordinateSpaceOptions = {},
+  ) {
+    this.realWidth = realWidth;
+    this.realHeight = realHeight;
+    this.rounding = options.rounding ?? "round";
+
+    const { maxWidth, maxHeight } = parseScalingDimension(
+      options.maxScalingDimension,
+    );
+    const ratio = realWidth / realHeight;
+
+    if (maxWidth && maxHeight) {
+      // Fit into both, preserving aspect ratio
+      const scale = Math.min(1, maxWidth / realWidth, maxHeight / realHeight);
+      this.scalingFactor = scale;
+      this.scaledWidth = Math.round(realWidth * scale);
+      this.scaledHeight = Math.round(realHeight * scale);
+    } else if (maxWidth && maxWidth < realWidth) {
+      this.scalingFactor = maxWidth / realWidth;
+      this.scaledWidth = maxWidth;
+      this.scaledHeight = Math.round(maxWidth / ratio);
+    } else if (maxHeight && maxHeight < realHeight) {
+      this.scalingFactor = maxHeight / realHeight;
+      this.scaledHeight = maxHeight;
+      this.scaledWidth = Math.round(maxHeight * ratio);
+    } else {
+      this.scalingFactor = 1;
+      this.scaledWidth = realWidth;
+      this.scaledHeight = realHeight;
+    }
+  }
+
+  /** Whether the scaled space is smaller than the real one. */
+  get isScaled(): boolean {
+    return this.scalingFactor < 1;
+  }
+
+  /** Map a point from the scaled space to real pixels. */
+  toReal(p: Point): Point {
+    return {
+      x: this.applyRounding(p.x / this.scalingFactor),
+      y: this.applyRounding(p.y / this.scalingFactor),
+    };
+  }
+
+  /** Map a point from real pixels to the scaled space. */
+  toScaled(p: Point): Point {
+    return {
+      x: this.applyRounding(p.x * this.scalingFactor),
+      y: this.applyRounding(p.y * this.scalingFactor),
+    };
+  }
+
+  /** Map a length (width, height, distance) from scaled to real pixels. */
+  toRealLength(length: number): number {
+    return this.applyRounding(length / this.scalingFactor);
+  }
+
+  /** Map a length (width, height, distance) from real pixels to scaled. */
+  toScaledLength(length: number): number {
+    return this.applyRounding(length * this.scalingFactor);
+  }
+
+  /** Whether a scaled point lies inside the scaled bounds. */
+  contains(p: Point): boolean {
+    return (
+      p.x >= 0 &&
+      p.x <= this.scaledWidth &&
+      p.y >= 0 &&
+      p.y <= this.scaledHeight
+    );
+  }
+
+  /** Clamp a scaled point into the scaled bounds. */
+  clamp(p: Point): Point {
+    return {
+      x: Math.min(this.scaledWidth, Math.max(0, p.x)),
+      y: Math.min(this.scaledHeight, Math.max(0, p.y)),
+    };
+  }
+
+  /**
+   * Throw if a scaled point lies outside the scaled bounds.
+   *
+   * @param label Name of the surface used in the error, e.g. `"screen"`.
+   */
+  assertWithinBounds(p: Point, label = "screen"): void {
+    if (!this.contains(p)) {
+      throw new Error(
+        `Coordinates (${p.x}, ${p.y}) are outside ${label} bounds (${this.scaledWidth}x${this.scaledHeight})`,
+      );
+    }
+  }
+
+  private applyRounding(value: number): number {
+    switch (this.rounding) {
+      case "floor":
+        return Math.floor(value);
+      case "ceil":
+        return Math.ceil(value);
+      case "none":
+        return value;
+      default:
+        return Math.round(value);
+    }
+  }
+}
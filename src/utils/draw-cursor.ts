@@ -0,0 +1,33 @@
+import sharp from "sharp";
+import type { Point } from "../computers/computer.js";
+
+/** Arrow pointer outline with its tip at (0, 0), in a 12x19 box. */
+const ARROW_PATH = "M0,0 L0,16 L4,12 L7,19 L10,18 L7,11 L12,11 Z";
+
+/**
+ * Composite a mouse pointer onto an image.
+ *
+ * OS screenshots never contain the pointer, so this draws a black arrow with
+ * a white outline whose tip sits at `at` (in image pixels). Pointers partly
+ * or fully outside the image are clipped.
+ *
+ * @param scale Size multiplier, e.g. the capture's device pixel ratio.
+ */
+export async function drawCursor(
+  image: Buffer,
+  at: Point,
+  scale = 1,
+): Promise<Buffer> {
+  const { width, height } = await sharp(image).metadata();
+  if (!width || !height) return image;
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+  <path d="${ARROW_PATH}" transform="translate(${at.x} ${at.y}) scale(${scale})"
+    fill="black" stroke="white" stroke-width="1.5" stroke-linejoin="round"/>
+</svg>`;
+
+  return sharp(image)
+    .composite([{ input: Buffer.from(svg), top: 0, left: 0 }])
+    .png()
+    .toBuffer();
+}
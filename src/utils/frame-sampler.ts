@@ -0,0 +1,138 @@
+import sharp from "sharp";
+
+export interface FrameSamplerOptions {
+  /** Captures per second. Default `2`. */
+  fps?: number;
+
+  /**
+   * Most frames kept in memory. Once exceeded, every other frame is dropped
+   * and sampling slows down by half, so long sessions are still covered
+   * end to end. Default `240`.
+   */
+  maxFrames?: number;
+}
+
+/** Frames captured by a {@link FrameSampler}, ready to encode. */
+export interface SampledFrames {
+  frames: Buffer[];
+
+  /** How long each frame is shown, in milliseconds. */
+  delays: number[];
+  durationMs: number;
+}
+
+/**
+ * Captures frames at a fixed rate until stopped. A capture that fails is
+ * skipped; a frame identical to the previous one only extends it.
+ */
+export class FrameSampler {
+  private readonly frames: Buffer[] = [];
+  private readonly times: number[] = [];
+  private readonly maxFrames: number;
+  private intervalMs: number;
+  private startedAt = 0;
+  private stopped = false;
+  private loop: Promise<void> | undefined;
+  private wake: (() => void) | undefined;
+
+  constructor(
+    private readonly capture: () => Promise<Buffer>,
+    options: FrameSamplerOptions = {},
+  ) {
+    this.intervalMs = 1000 / (options.fps ?? 2);
+    this.maxFrames = options.maxFrames ?? 240;
+  }
+
+  start(): void {
+    this.startedAt = Date.now();
+    this.loop = this.run();
+  }
+
+  /** Stop sampling and return the frames. */
+  async stop(): Promise<SampledFrames> {
+    this.stopped = true;
+    this.wake?.();
+    await this.loop;
+
+    const end = Date.now();
+    const delays = this.times.map((t, i) => (this.times[i + 1] ?? end) - t);
+    return {
+      frames: this.frames,
+      delays,
+      durationMs: end - this.startedAt,
+    };
+  }
+
+  private async run(): Promise<void> {
+    while (!this.stopped) {
+      const at = Date.now();
+      try {
+        this.add(await this.capture(), at);
+      } catch {
+        // A missed frame only lengthens the previous one
+      }
+
+      const wait = this.intervalMs - (Date.now() - at);
+      if (wait > 0 && !this.stopped) {
+        await new Promise<void>((resolve) => {
+          const timer = setTimeout(resolve, wait);
+          this.wake = () => {
+            clearTimeout(timer);
+            resolve();
+          };
+        });
+      }
+    }
+  }
+
+  private add(frame: Buffer, at: number): void {
+    const last = this.frames[this.frames.length - 1];
+    if (last?.equals(frame)) return;
+
+    this.frames.push(frame);
+    this.times.push(at);
+    if (this.frames.length > this.maxFrames) {
+      for (let i = 1; i * 2 < this.frames.length; i++) {
+        this.frames[i] = this.frames[i * 2];
+        this.times[i] = this.times[i * 2];
+      }
+      const kept = Math.ceil(this.frames.length / 2);
+      this.frames.length = kept;
+      this.times.length = kept;
+      this.intervalMs *= 2;
+    }
+  }
+}
+
+/**
+ * Encode frames as a looping animated WebP or GIF. Frames are fitted to the
+ * size of the first one.
+ */
+export async function encodeAnimation(
+  { frames, delays }: SampledFrames,
+  format: "webp" | "gif",
+): Promise<Buffer> {
+  if (frames.length === 0) throw new Error("No frames were captured.");
+
+  const { width, height } = await sharp(frames[0]).metadata();
+  const sized = await Promise.all(
+    frames.map(async (frame) => {
+      const meta = await sharp(frame).metadata();
+      if (meta.width === width && meta.height === height) return frame;
+      return sharp(frame)
+        .resize(width, height, { fit: "contain", background: "#000000" })
+        .png()
+        .toBuffer();
+    }),
+  );
+
+  // A screen that never changed is a single frame, which cannot be joined
+  const animation =
+    sized.length > 1
+      ? sharp(sized, { join: { animated: true } })
+      : sharp(sized[0]);
+  const delay = delays.map((d) => Math.max(1, Math.round(d)));
+  return format === "gif"
+    ? animation.gif({ delay, loop: 0 }).toBuffer()
+    : animation.webp({ delay, loop: 0 }).toBuffer();
+}
@@ -0,0 +1,34 @@
+/** A screenshot kept for later reference, with how it was captured. */
+export interface StoredFrame<M> {
+  id: number;
+  image: Buffer;
+  capturedAt: number;
+  meta: M;
+}
+
+/**
+ * Keeps the most recent screenshots by id so later calls can refer back to
+ * them. The oldest frames are dropped once `capacity` is reached.
+ */
+export class FrameStore<M> {
+  private readonly frames = new Map<number, StoredFrame<M>>();
+  private nextId = 1;
+
+  constructor(readonly capacity = 20) {}
+
+  /** Store a frame and return it with its new id. */
+  add(image: Buffer, meta: M): StoredFrame<M> {
+    const frame = { id: this.nextId++, image, capturedAt: Date.now(), meta };
+    this.frames.set(frame.id, frame);
+
+    // Maps iterate in insertion order, so the first key is the oldest
+    while (this.frames.size > this.capacity) {
+      this.frames.delete(this.frames.keys().next().value!);
+    }
+    return frame;
+  }
+
+  get(id: number): StoredFrame<M> | undefined {
+    return this.frames.get(id);
+  }
+}
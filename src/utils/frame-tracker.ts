@@ -0,0 +1,57 @@
+import { createHash } from "node:crypto";
+import type { Rect } from "../computers/computer.js";
+import { decodeFrame, diffFrames } from "./image-diff.js";
+
+/** How a frame compares with the previous one recorded under its key. */
+export interface FrameComparison {
+  /** Whether the frame is byte-for-byte identical to the previous one. */
+  unchanged: boolean;
+
+  /**
+   * Where the pixels changed; `null` when unchanged or when the change is
+   * below the per-pixel tolerance.
+   */
+  bounds: Rect | null;
+}
+
+/**
+ * Remembers the last image returned for each key (e.g. one per display and
+ * capture settings) so repeated, identical screenshots can be answered with
+ * a short note instead.
+ *
+ * Frames are compared by hash; the previous image is only decoded to locate
+ * the change once the hashes differ.
+ */
+export class FrameTracker {
+  private readonly last = new Map<string, { hash: string; image: Buffer }>();
+
+  /**
+   * Record `image` as the latest frame for `key` and compare it with the
+   * previous one. Returns `null` for the first frame of a key.
+   */
+  async update(key: string, image: Buffer): Promise<FrameComparison | null> {
+    const previous = this.last.get(key);
+    const hash = this.record(key, image);
+
+    if (!previous) return null;
+    if (previous.hash === hash) return { unchanged: true, bounds: null };
+
+    const diff = diffFrames(
+      await decodeFrame(previous.image),
+      await decodeFrame(image),
+    );
+    return { unchanged: false, bounds: diff.bounds };
+  }
+
+  /** Record `image` as the latest frame for `key` without comparing. */
+  record(key: string, image: Buffer): string {
+    const hash = createHash("sha256").update(image).digest("hex");
+    this.last.set(key, { hash, image });
+    return hash;
+  }
+
+  /** Forget every recorded frame. */
+  clear(): void {
+    this.last.clear();
+  }
+}
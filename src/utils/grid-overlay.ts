@@ -0,0 +1,63 @@
+import sharp from "sharp";
+import type { ImageEncoding, Point } from "../computers/computer.js";
+import { compressImage } from "./compress-image.js";
+
+const LABEL_FONT_SIZE = 10;
+
+/**
+ * Overlay a labeled coordinate grid on an image.
+ *
+ * Lines are drawn every `spacing` units of the coordinate space the image
+ * shows, which starts at `origin` (e.g. the top-left corner of a region
+ * capture). One image pixel is one unit, matching the scaled space that
+ * screenshots and clicks share. Labels run along the top and left edges.
+ * The result is encoded with `encoding`.
+ */
+export async function drawGrid(
+  image: Buffer,
+  spacing: number,
+  origin: Point = { x: 0, y: 0 },
+  encoding?: ImageEncoding,
+): Promise<Buffer> {
+  const { width, height } = await sharp(image).metadata();
+  if (!width || !height || spacing <= 0) return image;
+
+  const lines: string[] = [];
+  const labels: string[] = [];
+  const label = (x: number, y: number, text: number) =>
+    labels.push(
+      `<text x="${x}" y="${y}" font-family="sans-serif" font-size="${LABEL_FONT_SIZE}">${text}</text>`,
+    );
+
+  // First multiple of `spacing` at or after the origin
+  const firstX = Math.ceil(origin.x / spacing) * spacing;
+  for (let gx = firstX; gx - origin.x < width; gx += spacing) {
+    const x = gx - origin.x;
+    lines.push(`<line x1="${x}" y1="0" x2="${x}" y2="${height}"/>`);
+    if (x > 0) label(x + 2, LABEL_FONT_SIZE, gx);
+  }
+  const firstY = Math.ceil(origin.y / spacing) * spacing;
+  for (let gy = firstY; gy - origin.y < height; gy += spacing) {
+    const y = gy - origin.y;
+    lines.push(`<line x1="0" y1="${y}" x2="${width}" y2="${y}"/>`);
+    if (y > 0) label(2, y - 2, gy);
+  }
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+  <g stroke="#ff00ff" stroke-opacity="0.5" stroke-width="1">
+    ${lines.join("\n    ")}
+  </g>
+  <g fill="#ff00ff" stroke="white" stroke-width="2.5" paint-order="stroke" font-weight="bold">
+    ${labels.join("\n    ")}
+  </g>
+</svg>`;
+
+  return compressImage(
+    await sharp(image)
+      .composite([{ input: Buffer.from(svg), top: 0, left: 0 }])
+      .png()
+      .toBuffer(),
+    undefined,
+    encoding,
+  );
+}
@@ -0,0 +1,44 @@
+import type { MouseButton } from "../computers/computer.js";
+
+/**
+ * Tracks mouse buttons and keys that are currently held down via the
+ * low-level press/release primitives, so they can be reported and released
+ * when a session ends.
+ *
+ * Keys are stored under the backend-specific name they were pressed with.
+ */
+export class HeldInputs {
+  private readonly buttons = new Set<MouseButton>();
+  private readonly keys = new Set<string>();
+
+  pressButton(button: MouseButton): void {
+    this.buttons.add(button);
+  }
+
+  releaseButton(button: MouseButton): void {
+    this.buttons.delete(button);
+  }
+
+  pressKey(key: string): void {
+    this.keys.add(key);
+  }
+
+  releaseKey(key: string): void {
+    this.keys.delete(key);
+  }
+
+  /** Held buttons, in press order. */
+  heldButtons(): MouseButton[] {
+    return [...this.buttons];
+  }
+
+  /** Held keys, in press order. */
+  heldKeys(): string[] {
+    return [...this.keys];
+  }
+
+  clear(): void {
+    this.buttons.clear();
+    this.keys.clear();
+  }
+}
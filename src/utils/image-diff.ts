@@ -0,0 +1,224 @@
+import sharp from "sharp";
+import type { Rect } from "../computers/computer.js";
+
+/** A decoded single-channel (grayscale) image, one byte per pixel. */
+export interface Frame {
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+export interface FrameDiff {
+  /** Number of pixels whose value differs by more than the tolerance. */
+  changedPixels: number;
+
+  /** `changedPixels` as a fraction of all pixels, 0–1. */
+  changedRatio: number;
+
+  /** Smallest rectangle containing every changed pixel, or `null`. */
+  bounds: Rect | null;
+}
+
+/** Per-pixel difference below which two pixels count as equal. */
+const DEFAULT_TOLERANCE = 16;
+
+/** Decode an encoded image (PNG, JPEG, WebP…) into a grayscale frame. */
+export async function decodeFrame(image: Buffer): Promise<Frame> {
+  const { data, info } = await sharp(image)
+    .grayscale()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  // Alpha survives grayscale(), so keep only the first channel
+  if (info.channels === 1) {
+    return { data, width: info.width, height: info.height };
+  }
+  const gray = Buffer.alloc(info.width * info.height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = data[i * info.channels];
+  }
+  return { data: gray, width: info.width, height: info.height };
+}
+
+/** Cut a rectangle out of a frame. The rectangle is clamped to the frame. */
+export function cropFrame(frame: Frame, rect: Rect): Frame {
+  const x = Math.max(0, Math.round(rect.x));
+  const y = Math.max(0, Math.round(rect.y));
+  const width = Math.max(0, Math.min(frame.width - x, Math.round(rect.width)));
+  const height = Math.max(
+    0,
+    Math.min(frame.height - y, Math.round(rect.height)),
+  );
+
+  const data = Buffer.alloc(width * height);
+  for (let row = 0; row < height; row++) {
+    const from = (y + row) * frame.width + x;
+    frame.data.copy(data, row * width, from, from + width);
+  }
+  return { data, width, height };
+}
+
+/**
+ * Compare two frames pixel by pixel.
+ *
+ * Frames of different sizes are treated as entirely changed.
+ */
+export function diffFrames(
+  a: Frame,
+  b: Frame,
+  tolerance = DEFAULT_TOLERANCE,
+): FrameDiff {
+  const total = b.width * b.height;
+  if (a.width !== b.width || a.height !== b.height) {
+    return {
+      changedPixels: total,
+      changedRatio: 1,
+      bounds: { x: 0, y: 0, width: b.width, height: b.height },
+    };
+  }
+
+  let changed = 0;
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -1;
+  let maxY = -1;
+
+  for (let y = 0; y < b.height; y++) {
+    const row = y * b.width;
+    for (let x = 0; x < b.width; x++) {
+      if (Math.abs(a.data[row + x] - b.data[row + x]) > tolerance) {
+        changed++;
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+      }
+    }
+  }
+
+  return {
+    changedPixels: changed,
+    changedRatio: total > 0 ? changed / total : 0,
+    bounds:
+      changed > 0
+        ? { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 }
+        : null,
+  };
+}
+
+/** Grid cell size used to group changed pixels into regions. */
+const REGION_CELL_SIZE = 16;
+
+/**
+ * Find the separate areas in which two same-sized frames differ.
+ *
+ * Changed pixels are bucketed into grid cells; touching cells (including
+ * diagonally) form one region, reported as the tight box around its changed
+ * pixels. Largest regions come first.
+ */
+export function changedRegions(
+  a: Frame,
+  b: Frame,
+  tolerance = DEFAULT_TOLERANCE,
+): Rect[] {
+  if (a.width !== b.width || a.height !== b.height) {
+    return [{ x: 0, y: 0, width: b.width, height: b.height }];
+  }
+
+  const cols = Math.ceil(b.width / REGION_CELL_SIZE);
+  const rows = Math.ceil(b.height / REGION_CELL_SIZE);
+  // Per cell: tight bounds of its changed pixels, if any
+  const cells: { minX: number; minY: number; maxX: number; maxY: number }[] =
+    [];
+
+  for (let y = 0; y < b.height; y++) {
+    const row = y * b.width;
+    for (let x = 0; x < b.width; x++) {
+      if (Math.abs(a.data[row + x] - b.data[row + x]) <= tolerance) continue;
+      const i =
+        Math.floor(y / REGION_CELL_SIZE) * cols +
+        Math.floor(x / REGION_CELL_SIZE);
+      const cell = cells[i];
+      if (!cell) {
+        cells[i] = { minX: x, minY: y, maxX: x, maxY: y };
+      } else {
+        cell.minX = Math.min(cell.minX, x);
+        cell.minY = Math.min(cell.minY, y);
+        cell.maxX = Math.max(cell.maxX, x);
+        cell.maxY = Math.max(cell.maxY, y);
+      }
+    }
+  }
+
+  // Flood-fill connected cells into regions
+  const regions: Rect[] = [];
+  const visited = new Uint8Array(cols * rows);
+  for (let start = 0; start < cols * rows; start++) {
+    if (!cells[start] || visited[start]) continue;
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -1;
+    let maxY = -1;
+    const stack = [start];
+    visited[start] = 1;
+
+    while (stack.length > 0) {
+      const i = stack.pop()!;
+      const cell = cells[i];
+      minX = Math.min(minX, cell.minX);
+      minY = Math.min(minY, cell.minY);
+      maxX = Math.max(maxX, cell.maxX);
+      maxY = Math.max(maxY, cell.maxY);
+
+      const cx = i % cols;
+      const cy = Math.floor(i / cols);
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = cx + dx;
+          const ny = cy + dy;
+          if (nx < 0 || ny < 0 || nx >= cols || ny >= rows) continue;
+          const n = ny * cols + nx;
+          if (cells[n] && !visited[n]) {
+            visited[n] = 1;
+            stack.push(n);
+          }
+        }
+      }
+    }
+    regions.push({
+      x: minX,
+      y: minY,
+      width: maxX - minX + 1,
+      height: maxY - minY + 1,
+    });
+  }
+
+  return regions.sort((r, s) => s.width * s.height - r.width * r.height);
+}
+
+/**
+ * Outline the given regions on an image in red, with a translucent fill so
+ * small changes stand out.
+ */
+export async function highlightRegions(
+  image: Buffer,
+  regions: Rect[],
+): Promise<Buffer> {
+  const { width, height } = await sharp(image).metadata();
+  if (!width || !height || regions.length === 0) return image;
+
+  const boxes = regions.map(
+    (r) =>
+      `<rect x="${r.x - 1}" y="${r.y - 1}" width="${r.width + 2}" height="${r.height + 2}"/>`,
+  );
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+  <g fill="#ff0000" fill-opacity="0.2" stroke="#ff0000" stroke-width="2">
+    ${boxes.join("\n    ")}
+  </g>
+</svg>`;
+
+  return sharp(image)
+    .composite([{ input: Buffer.from(svg), top: 0, left: 0 }])
+    .png()
+    .toBuffer();
+}
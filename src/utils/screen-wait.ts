@@ -0,0 +1,81 @@
+import { decodeFrame, diffFrames, Frame, FrameDiff } from "./image-diff.js";
+
+/**
+ * Polling helpers that synchronise on what is actually on screen instead of
+ * sleeping for a fixed time. Both take a `capture` callback returning a
+ * base64-encoded image, so they work with any screenshot source.
+ */
+
+export interface PollOptions {
+  /** Delay between captures in milliseconds. */
+  intervalMs: number;
+
+  /** Give up after this many milliseconds. */
+  timeoutMs: number;
+
+  /** Fraction of changed pixels (0–1) that counts as a change. */
+  threshold: number;
+}
+
+export interface PollResult {
+  /** Milliseconds spent waiting, including capture time. */
+  waitedMs: number;
+
+  /** Whether the timeout expired before the condition was met. */
+  timedOut: boolean;
+
+  /** Difference between the last two frames that were compared. */
+  diff: FrameDiff | null;
+}
+
+async function captureFrame(capture: () => Promise<string>): Promise<Frame> {
+  return decodeFrame(Buffer.from(await capture(), "base64"));
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/**
+ * Wait until two consecutive captures differ by less than `threshold`.
+ */
+export async function waitForStable(
+  capture: () => Promise<string>,
+  options: PollOptions,
+): Promise<PollResult> {
+  const start = Date.now();
+  let previous = await captureFrame(capture);
+  let diff: FrameDiff | null = null;
+
+  while (Date.now() - start < options.timeoutMs) {
+    await sleep(options.intervalMs);
+    const current = await captureFrame(capture);
+    diff = diffFrames(previous, current);
+    if (diff.changedRatio < options.threshold) {
+      return { waitedMs: Date.now() - start, timedOut: false, diff };
+    }
+    previous = current;
+  }
+
+  return { waitedMs: Date.now() - start, timedOut: true, diff };
+}
+
+/**
+ * Wait until a capture differs from the first one by at least `threshold`.
+ */
+export async function waitForChange(
+  capture: () => Promise<string>,
+  options: PollOptions,
+): Promise<PollResult> {
+  const start = Date.now();
+  const baseline = await captureFrame(capture);
+  let diff: FrameDiff | null = null;
+
+  while (Date.now() - start < options.timeoutMs) {
+    await sleep(options.intervalMs);
+    diff = diffFrames(baseline, await captureFrame(capture));
+    if (diff.changedPixels > 0 && diff.changedRatio >= options.threshold) {
+      return { waitedMs: Date.now() - start, timedOut: false, diff };
+    }
+  }
+
+  return { waitedMs: Date.now() - start, timedOut: true, diff };
+}
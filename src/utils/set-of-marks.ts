@@ -0,0 +1,268 @@
+import sharp from "sharp";
+import type { Page } from "playwright";
+import type { Point, Rect } from "../computers/computer.js";
+
+/**
+ * Set-of-marks prompting: number every interactive element on screen, draw
+ * the numbers onto the screenshot, and let the model pick an element by
+ * number instead of estimating coordinates.
+ */
+
+/** An interactive element found in the page. */
+export interface InteractiveElement {
+  /** Element reference, shared with the accessibility tree. */
+  ref: string;
+  role: string;
+  description: string;
+
+  /** Bounding box in viewport CSS pixels. */
+  bounds: Rect;
+}
+
+/** An element with its mark number, in screenshot coordinates. */
+export interface Mark extends InteractiveElement {
+  mark: number;
+  center: Point;
+}
+
+/** Box colours, cycled so neighbouring marks are easy to tell apart. */
+const MARK_COLORS = [
+  "#e6194b",
+  "#3cb44b",
+  "#4363d8",
+  "#f58231",
+  "#911eb4",
+  "#008080",
+  "#f032e6",
+  "#9a6324",
+];
+
+const LABEL_FONT_SIZE = 12;
+
+/** List the visible, unobscured interactive elements in the viewport. */
+export async function findInteractiveElements(
+  page: Page,
+): Promise<InteractiveElement[]> {
+  return page.evaluate(findInteractiveInPage, { maxTextLength: 60 });
+}
+
+/** Draw a numbered box for every mark onto an image. */
+export async function drawMarks(image: Buffer, marks: Mark[]): Promise<Buffer> {
+  const { width, height } = await sharp(image).metadata();
+  if (!width || !height || marks.length === 0) return image;
+
+  const shapes = marks.map((m, i) => {
+    const color = MARK_COLORS[i % MARK_COLORS.length];
+    const { x, y, width: w, height: h } = m.bounds;
+    const label = String(m.mark);
+    const labelWidth = label.length * LABEL_FONT_SIZE * 0.65 + 6;
+    const labelHeight = LABEL_FONT_SIZE + 4;
+    // Put the label above the box, or inside it at the top edge of the image
+    const labelY = y >= labelHeight ? y - labelHeight : y;
+    return `<rect x="${x}" y="${y}" width="${w}" height="${h}" fill="none" stroke="${color}" stroke-width="2"/>
+  <rect x="${x}" y="${labelY}" width="${labelWidth}" height="${labelHeight}" fill="${color}"/>
+  <text x="${x + 3}" y="${labelY + LABEL_FONT_SIZE}" font-family="sans-serif" font-size="${LABEL_FONT_SIZE}" font-weight="bold" fill="white">${label}</text>`;
+  });
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+  ${shapes.join("\n  ")}
+</svg>`;
+
+  return sharp(image)
+    .composite([{ input: Buffer.from(svg), top: 0, left: 0 }])
+    .png()
+    .toBuffer();
+}
+
+/** One legend line per mark: `[3] link "Pricing" at (412, 230)`. */
+export function formatMarkLegend(marks: Mark[]): string {
+  return marks
+    .map((m) => {
+      const name = m.description ? ` ${JSON.stringify(m.description)}` : "";
+      const { x, y } = m.center;
+      return `[${m.mark}] ${m.role}${name} at (${Math.round(x)}, ${Math.round(y)})`;
+    })
+    .join("\n");
+}
+
+// ---------------------------------------------------------------------------
+// In-page implementation
+// ---------------------------------------------------------------------------
+
+/**
+ * Runs inside the page via `page.evaluate`, so it must be self-contained.
+ * Refs use the same registry and attribute as the accessibility tree.
+ */
+function findInteractiveInPage(options: {
+  maxTextLength: number;
+}): InteractiveElement[] {
+  const w = window as unknown as {
+    __computermateRefs?: { map: WeakMap<Element, string>; next: number };
+  };
+  const refs = (w.__computermateRefs ??= { map: new WeakMap(), next: 1 });
+  const refOf = (el: Element): string => {
+    let ref = refs.map.get(el);
+    if (!ref) {
+      ref = `e${refs.next++}`;
+      refs.map.set(el, ref);
+      el.setAttribute("data-computermate-ref", ref);
+    }
+    return ref;
+  };
+
+  const INTERACTIVE_SELECTOR = [
+    "a[href]",
+    "button",
+    "input:not([type=hidden])",
+    "select",
+    "textarea",
+    "summary",
+    "[onclick]",
+    "[contenteditable='']",
+    "[contenteditable='true']",
+    "[tabindex]:not([tabindex='-1'])",
+    ...[
+      "button",
+      "link",
+      "checkbox",
+      "radio",
+      "switch",
+      "tab",
+      "menuitem",
+      "option",
+      "combobox",
+      "textbox",
+      "searchbox",
+      "slider",
+    ].map((role) => `[role=${role}]`),
+  ].join(",");
+
+  const clip = (s: string): string => {
+    const text = s.replace(/\s+/g, " ").trim();
+    return text.length > options.maxTextLength
+      ? text.slice(0, options.maxTextLength - 1) + "…"
+      : text;
+  };
+
+  const roleOf = (el: Element): string => {
+    const explicit = el.getAttribute("role");
+    if (explicit) return explicit;
+    switch (el.tagName) {
+      case "A":
+        return "link";
+      case "BUTTON":
+      case "SUMMARY":
+        return "button";
+      case "SELECT":
+        return "combobox";
+      case "TEXTAREA":
+        return "textbox";
+      case "INPUT": {
+        const type = (el as HTMLInputElement).type;
+        if (["button", "submit", "reset", "image"].includes(type)) {
+          return "button";
+        }
+        if (type === "checkbox" || type === "radio") return type;
+        return "textbox";
+      }
+    }
+    return "clickable";
+  };
+
+  const describe = (el: Element): string => {
+    const input = el as HTMLInputElement;
+    const candidates = [
+      el.getAttribute("aria-label"),
+      input.labels?.length
+        ? Array.from(input.labels, (l) => l.textContent).join(" ")
+        : null,
+      el.getAttribute("alt"),
+      el.tagName === "INPUT" || el.tagName === "TEXTAREA"
+        ? null
+        : (el as HTMLElement).innerText,
+      input.type === "password" ? "•".repeat(input.value.length) : input.value,
+      el.getAttribute("placeholder"),
+      el.getAttribute("title"),
+    ];
+    for (const c of candidates) {
+      if (c && c.trim()) return clip(c);
+    }
+    return "";
+  };
+
+  const isVisible = (el: Element, rect: DOMRect): boolean => {
+    if (rect.width < 1 || rect.height < 1) return false;
+    if (
+      rect.right <= 0 ||
+      rect.bottom <= 0 ||
+      rect.left >= window.innerWidth ||
+      rect.top >= window.innerHeight
+    ) {
+      return false;
+    }
+    const style = getComputedStyle(el);
+    if (style.visibility === "hidden" || style.opacity === "0") return false;
+    if ((el as HTMLInputElement).disabled) return false;
+
+    // Skip elements covered by something else at their centre
+    const cx = Math.min(
+      Math.max(rect.left + rect.width / 2, 0),
+      window.innerWidth - 1,
+    );
+    const cy = Math.min(
+      Math.max(rect.top + rect.height / 2, 0),
+      window.innerHeight - 1,
+    );
+    const hit = document.elementFromPoint(cx, cy);
+    return !!hit && (el === hit || el.contains(hit) || hit.contains(el));
+  };
+
+  const semantic = new Set<Element>(
+    document.querySelectorAll(INTERACTIVE_SELECTOR),
+  );
+
+  // Elements with a pointer cursor catch click handlers the DOM cannot
+  // reveal; only the outermost one of a pointer subtree counts
+  const candidates = new Set<Element>(semantic);
+  for (const el of Array.from(document.body?.querySelectorAll("*") ?? [])) {
+    if (getComputedStyle(el).cursor !== "pointer") continue;
+    const parent = el.parentElement;
+    if (parent && getComputedStyle(parent).cursor === "pointer") continue;
+    candidates.add(el);
+  }
+
+  const found: InteractiveElement[] = [];
+  const marked = new Set<Element>();
+  const inDocumentOrder = [...candidates].sort((a, b) =>
+    a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1,
+  );
+  for (const el of inDocumentOrder) {
+    // Anything inside a marked button, link or input (e.g. an icon) shares
+    // its mark
+    let ancestor = el.parentElement;
+    while (ancestor && !(marked.has(ancestor) && semantic.has(ancestor))) {
+      ancestor = ancestor.parentElement;
+    }
+    if (ancestor) continue;
+
+    const rect = el.getBoundingClientRect();
+    if (!isVisible(el, rect)) continue;
+    marked.add(el);
+    found.push({
+      ref: refOf(el),
+      role: roleOf(el),
+      description: describe(el),
+      bounds: {
+        x: rect.x,
+        y: rect.y,
+        width: rect.width,
+        height: rect.height,
+      },
+    });
+  }
+
+  // Reading order: top to bottom, then left to right
+  return found.sort(
+    (a, b) => a.bounds.y - b.bounds.y || a.bounds.x - b.bounds.x,
+  );
+}
@@ -0,0 +1,317 @@
+import sharp from "sharp";
+import type { Rect } from "../computers/computer.js";
+import { decodeFrame, Frame } from "./image-diff.js";
+
+/**
+ * Template matching by normalised cross-correlation (NCC) on grayscale
+ * images.
+ *
+ * The search runs coarse-to-fine: both images are first downscaled so the
+ * template is only a few pixels across, every position is scored there, and
+ * the promising candidates are then refined level by level up to full
+ * resolution. This keeps a full-screen search fast enough to run inside a
+ * tool call.
+ */
+
+export interface TemplateMatch extends Rect {
+  /** NCC score in the range -1–1; 1 is a perfect match. */
+  score: number;
+}
+
+export interface FindTemplateOptions {
+  /** Minimum score for a match to be reported. Default `0.9`. */
+  threshold?: number;
+
+  /** Maximum number of matches to return, best first. Default `5`. */
+  maxResults?: number;
+
+  /**
+   * Resize the template by this factor before searching, e.g. to match a
+   * template cropped from a full-resolution screen against a scaled
+   * screenshot. Default `1`.
+   */
+  templateScale?: number;
+}
+
+/** Template side length targeted by the coarse pass. */
+const COARSE_TEMPLATE_SIZE = 12;
+
+/** Coarse candidates may score this much below the threshold. */
+const COARSE_SLACK = 0.2;
+
+/** Matches overlapping a better one by more than this are dropped. */
+const MAX_OVERLAP = 0.3;
+
+/** Summed-area tables of pixel values and their squares. */
+interface Integral {
+  sum: Float64Array;
+  sumSq: Float64Array;
+  stride: number;
+}
+
+function integral(frame: Frame): Integral {
+  const stride = frame.width + 1;
+  const sum = new Float64Array(stride * (frame.height + 1));
+  const sumSq = new Float64Array(stride * (frame.height + 1));
+
+  for (let y = 0; y < frame.height; y++) {
+    let rowSum = 0;
+    let rowSumSq = 0;
+    for (let x = 0; x < frame.width; x++) {
+      const v = frame.data[y * frame.width + x];
+      rowSum += v;
+      rowSumSq += v * v;
+      const i = (y + 1) * stride + x + 1;
+      sum[i] = sum[i - stride] + rowSum;
+      sumSq[i] = sumSq[i - stride] + rowSumSq;
+    }
+  }
+  return { sum, sumSq, stride };
+}
+
+function windowSum(
+  table: Float64Array,
+  stride: number,
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+): number {
+  return (
+    table[(y + h) * stride + x + w] -
+    table[y * stride + x + w] -
+    table[(y + h) * stride + x] +
+    table[y * stride + x]
+  );
+}
+
+/** Precomputed template statistics. */
+interface Template {
+  frame: Frame;
+  mean: number;
+  /** Square root of the sum of squared deviations from the mean. */
+  norm: number;
+}
+
+function prepareTemplate(frame: Frame): Template {
+  const n = frame.width * frame.height;
+  let sum = 0;
+  for (let i = 0; i < n; i++) sum += frame.data[i];
+  const mean = sum / n;
+
+  let sq = 0;
+  for (let i = 0; i < n; i++) sq += (frame.data[i] - mean) ** 2;
+  return { frame, mean, norm: Math.sqrt(sq) };
+}
+
+/** NCC score of the template placed with its top-left corner at (x, y). */
+function scoreAt(
+  image: Frame,
+  table: Integral,
+  template: Template,
+  x: number,
+  y: number,
+): number {
+  const { width: tw, height: th, data: tData } = template.frame;
+  const n = tw * th;
+  const sum = windowSum(table.sum, table.stride, x, y, tw, th);
+  const sumSq = windowSum(table.sumSq, table.stride, x, y, tw, th);
+  const mean = sum / n;
+  const windowNorm = Math.sqrt(Math.max(0, sumSq - sum * mean));
+
+  // Flat templates or windows have no correlation to speak of; fall back to
+  // comparing brightness.
+  if (template.norm < 1e-6 || windowNorm < 1e-6) {
+    const bothFlat = template.norm < 1e-6 && windowNorm < 1e-6;
+    return bothFlat ? 1 - Math.abs(mean - template.mean) / 255 : 0;
+  }
+
+  let cross = 0;
+  for (let ty = 0; ty < th; ty++) {
+    const imageRow = (y + ty) * image.width + x;
+    const templateRow = ty * tw;
+    for (let tx = 0; tx < tw; tx++) {
+      cross +=
+        image.data[imageRow + tx] * (tData[templateRow + tx] - template.mean);
+    }
+  }
+  return cross / (windowNorm * template.norm);
+}
+
+async function decodeScaled(
+  image: Buffer,
+  width: number,
+  height: number,
+  scale: number,
+): Promise<Frame> {
+  if (scale === 1) return decodeFrame(image);
+  return decodeFrame(
+    await sharp(image)
+      .resize(
+        Math.max(1, Math.round(width * scale)),
+        Math.max(1, Math.round(height * scale)),
+        { fit: "fill" },
+      )
+      .png()
+      .toBuffer(),
+  );
+}
+
+function overlap(a: Rect, b: Rect): number {
+  const w = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const h = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  if (w <= 0 || h <= 0) return 0;
+  const intersection = w * h;
+  return (
+    intersection / (a.width * a.height + b.width * b.height - intersection)
+  );
+}
+
+/**
+ * Keep the best-scoring match of every cluster of overlapping ones, up to
+ * `limit` matches.
+ */
+function suppressOverlaps(
+  matches: TemplateMatch[],
+  limit: number,
+): TemplateMatch[] {
+  const kept: TemplateMatch[] = [];
+  for (const m of [...matches].sort((a, b) => b.score - a.score)) {
+    if (kept.length >= limit) break;
+    if (kept.every((k) => overlap(k, m) <= MAX_OVERLAP)) kept.push(m);
+  }
+  return kept;
+}
+
+/** Image and template decoded at one pyramid level. */
+interface Level {
+  scale: number;
+  image: Frame;
+  table: Integral;
+  template: Template;
+}
+
+async function buildLevel(
+  image: Buffer,
+  imageSize: { width: number; height: number },
+  template: Buffer,
+  templateSize: { width: number; height: number },
+  templateScale: number,
+  scale: number,
+): Promise<Level> {
+  const frame = await decodeScaled(
+    image,
+    imageSize.width,
+    imageSize.height,
+    scale,
+  );
+  return {
+    scale,
+    image: frame,
+    table: integral(frame),
+    template: prepareTemplate(
+      await decodeScaled(
+        template,
+        templateSize.width,
+        templateSize.height,
+        templateScale * scale,
+      ),
+    ),
+  };
+}
+
+/** Best match within `radius` pixels of (cx, cy) on the given level. */
+function refine(
+  level: Level,
+  cx: number,
+  cy: number,
+  radius: number,
+): TemplateMatch | null {
+  const { width: tw, height: th } = level.template.frame;
+  const maxX = Math.min(level.image.width - tw, cx + radius);
+  const maxY = Math.min(level.image.height - th, cy + radius);
+  let best: TemplateMatch | null = null;
+
+  for (let y = Math.max(0, cy - radius); y <= maxY; y++) {
+    for (let x = Math.max(0, cx - radius); x <= maxX; x++) {
+      const score = scoreAt(level.image, level.table, level.template, x, y);
+      if (!best || score > best.score) {
+        best = { x, y, width: tw, height: th, score };
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Find occurrences of `template` inside `image`.
+ *
+ * Both are encoded images (PNG, JPEG, WebP…). Returned rectangles are in
+ * `image` pixels, best match first.
+ */
+export async function findTemplate(
+  image: Buffer,
+  template: Buffer,
+  options: FindTemplateOptions = {},
+): Promise<TemplateMatch[]> {
+  const threshold = options.threshold ?? 0.9;
+  const maxResults = options.maxResults ?? 5;
+  const templateScale = options.templateScale ?? 1;
+
+  const imageMeta = await sharp(image).metadata();
+  const templateMeta = await sharp(template).metadata();
+  if (!imageMeta.width || !imageMeta.height) return [];
+  if (!templateMeta.width || !templateMeta.height) return [];
+  const imageSize = { width: imageMeta.width, height: imageMeta.height };
+  const templateSize = {
+    width: Math.max(1, Math.round(templateMeta.width * templateScale)),
+    height: Math.max(1, Math.round(templateMeta.height * templateScale)),
+  };
+  if (
+    templateSize.width > imageSize.width ||
+    templateSize.height > imageSize.height
+  ) {
+    return [];
+  }
+
+  // Pyramid scales, coarsest first, doubling up to full resolution
+  const scales = [1];
+  const minSide = Math.min(templateSize.width, templateSize.height);
+  while (minSide * scales[0] > COARSE_TEMPLATE_SIZE * 2) {
+    scales.unshift(scales[0] / 2);
+  }
+
+  const originalSize = {
+    width: templateMeta.width,
+    height: templateMeta.height,
+  };
+  const build = (scale: number) =>
+    buildLevel(image, imageSize, template, originalSize, templateScale, scale);
+
+  // -- coarse pass: score every position ----------------------------------
+  const coarse = await build(scales[0]);
+  const { width: cw, height: ch } = coarse.template.frame;
+  let candidates: TemplateMatch[] = [];
+  for (let y = 0; y <= coarse.image.height - ch; y++) {
+    for (let x = 0; x <= coarse.image.width - cw; x++) {
+      const score = scoreAt(coarse.image, coarse.table, coarse.template, x, y);
+      if (score >= threshold - COARSE_SLACK) {
+        candidates.push({ x, y, width: cw, height: ch, score });
+      }
+    }
+  }
+  candidates = suppressOverlaps(candidates, maxResults * 4);
+
+  // -- refinement: track candidates up the pyramid ------------------------
+  for (const scale of scales.slice(1)) {
+    const level = await build(scale);
+    candidates = candidates
+      .map((c) => refine(level, c.x * 2, c.y * 2, 2))
+      .filter((c): c is TemplateMatch => c !== null);
+  }
+
+  return suppressOverlaps(
+    candidates.filter((c) => c.score >= threshold),
+    maxResults,
+  );
+}
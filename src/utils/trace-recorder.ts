@@ -0,0 +1,197 @@
+import { appendFile, mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import type { Computer, Environment } from "../computers/computer.js";
+
+/**
+ * Session traces: one JSONL file per session recording every tool call with
+ * its arguments, result and timing. Images in results are written next to
+ * the trace (in a directory named after it) and referenced by relative path.
+ *
+ * The first line describes the session; every later line is one call.
+ */
+
+export interface TraceSession {
+  type: "session";
+  version: 1;
+  started: string;
+  environment: Environment;
+
+  /** Computer type the session ran on, e.g. `"native"` or `"mock"`. */
+  backend?: string;
+
+  /** Screenshot dimensions (the scaled coordinate space). */
+  dimensions: [width: number, height: number];
+}
+
+/** A result content block as stored in a trace. */
+export type TraceContent =
+  | { type: "text"; text: string }
+  | {
+      type: "image";
+      mimeType: string;
+
+      /** Image file, relative to the trace file's directory. */
+      file: string;
+    };
+
+export interface TraceCall {
+  type: "call";
+  seq: number;
+  time: string;
+  tool: string;
+  args: Record<string, unknown>;
+  durationMs: number;
+
+  /** Result content; absent when the handler threw. */
+  content?: TraceContent[];
+  isError?: boolean;
+
+  /** Message of the error the handler threw. */
+  error?: string;
+}
+
+export type TraceLine = TraceSession | TraceCall;
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+  "image/gif": "gif",
+};
+
+/**
+ * Writes the trace of one session. Writes happen in the background, in call
+ * order; a failing write is reported once on stderr and never fails a tool.
+ */
+export class TraceRecorder {
+  /** Path of the JSONL trace file. */
+  readonly file: string;
+
+  /** Name of the image directory, relative to the trace file. */
+  private readonly assets: string;
+  private readonly started = new Date();
+  private writes: Promise<void> | undefined;
+  private seq = 0;
+  private failed = false;
+
+  constructor(
+    readonly dir: string,
+    private readonly computer: Pick<
+      Computer,
+      "getEnvironment" | "getDimensions"
+    >,
+    private readonly backend?: string,
+  ) {
+    const stamp = this.started.toISOString().replace(/[:.]/g, "-");
+    this.assets = `trace-${stamp}-${process.pid}`;
+    this.file = path.join(dir, `${this.assets}.jsonl`);
+  }
+
+  /** Run a tool call through `run` and record it. */
+  async record(
+    tool: string,
+    args: Record<string, unknown>,
+    run: () => Promise<CallToolResult>,
+  ): Promise<CallToolResult> {
+    const seq = ++this.seq;
+    const time = new Date();
+    const call: TraceCall = {
+      type: "call",
+      seq,
+      time: time.toISOString(),
+      tool,
+      args,
+      durationMs: 0,
+    };
+
+    try {
+      const result = await run();
+      call.durationMs = Date.now() - time.getTime();
+      this.enqueue(async () => {
+        call.content = await this.saveContent(seq, result.content);
+        if (result.isError) call.isError = true;
+        await this.append(call);
+      });
+      return result;
+    } catch (err) {
+      call.durationMs = Date.now() - time.getTime();
+      call.error = err instanceof Error ? err.message : String(err);
+      this.enqueue(() => this.append(call));
+      throw err;
+    }
+  }
+
+  /** Wait for every pending write. */
+  async flush(): Promise<void> {
+    await this.writes;
+  }
+
+  private enqueue(write: () => Promise<void>): void {
+    // The session line goes first, once
+    this.writes ??= this.start();
+    this.writes = this.writes.then(write).catch((err) => {
+      if (this.failed) return;
+      this.failed = true;
+      console.error(`Failed to write trace ${this.file}:`, err);
+    });
+  }
+
+  private async start(): Promise<void> {
+    await mkdir(path.join(this.dir, this.assets), { recursive: true });
+    const session: TraceSession = {
+      type: "session",
+      version: 1,
+      started: this.started.toISOString(),
+      environment: this.computer.getEnvironment(),
+      ...(this.backend && { backend: this.backend }),
+      dimensions: await this.computer.getDimensions(),
+    };
+    await this.append(session);
+  }
+
+  private append(line: TraceLine): Promise<void> {
+    return appendFile(this.file, JSON.stringify(line) + "\n");
+  }
+
+  /** Replace image data with files written beside the trace. */
+  private async saveContent(
+    seq: number,
+    content: CallToolResult["content"],
+  ): Promise<TraceContent[]> {
+    const saved: TraceContent[] = [];
+    for (const [i, block] of content.entries()) {
+      if (block.type === "text") {
+        saved.push({ type: "text", text: block.text });
+      } else if (block.type === "image") {
+        const ext = IMAGE_EXTENSIONS[block.mimeType] ?? "bin";
+        const file = `${this.assets}/${String(seq).padStart(4, "0")}-${i}.${ext}`;
+        await writeFile(
+          path.join(this.dir, file),
+          Buffer.from(block.data, "base64"),
+        );
+        saved.push({ type: "image", mimeType: block.mimeType, file });
+      }
+    }
+    return saved;
+  }
+}
+
+/** Read a trace file back into its session line and calls. */
+export async function readTrace(
+  file: string,
+): Promise<{ session: TraceSession; calls: TraceCall[] }> {
+  const lines = (await readFile(file, "utf8"))
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line) as TraceLine);
+
+  const [session, ...rest] = lines;
+  if (session?.type !== "session" || session.version !== 1) {
+    throw new Error(`${file} is not a computermate trace.`);
+  }
+  return {
+    session,
+    calls: rest.filter((line): line is TraceCall => line.type === "call"),
+  };
+}
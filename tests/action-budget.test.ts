@@ -0,0 +1,145 @@
+import { describe, it, expect } from "vitest";
+import { ActionBudget } from "../src/utils/action-budget.js";
+
+function clocked(limits: ConstructorParameters<typeof ActionBudget>[0]) {
+  const clock = { now: 0 };
+  return { budget: new ActionBudget(limits, () => clock.now), clock };
+}
+
+describe("ActionBudget", () => {
+  it("only charges tools that act on the computer", () => {
+    const { budget } = clocked({ maxActions: 1 });
+    expect(budget.charge("screenshot", {})).toBeNull();
+    expect(budget.charge("get_budget", {})).toBeNull();
+    expect(budget.charge("click", { x: 1, y: 1 })).toBeNull();
+    expect(budget.status().actions).toEqual({
+      used: 1,
+      limit: 1,
+      remaining: 0,
+    });
+  });
+
+  it("refuses actions once the session total is used up", () => {
+    const { budget } = clocked({ maxActions: 2 });
+    budget.charge("click", { x: 1, y: 1 });
+    budget.charge("keypress", { keys: ["a"] });
+
+    expect(budget.charge("move", { x: 1, y: 1 })).toMatchObject({
+      error: "budget_exhausted",
+      budget: "actions",
+      message: "Budget exhausted: all 2 actions of this session are used up.",
+      status: { actions: { used: 2, remaining: 0 } },
+    });
+  });
+
+  it("counts every step of a batch and refuses it as a whole", () => {
+    const { budget } = clocked({ maxActions: 3, maxTypedChars: 10 });
+    const batch = {
+      actions: [
+        { action: "click", x: 1, y: 1 },
+        { action: "type", text: "hello" },
+      ],
+    };
+    expect(budget.charge("batch", batch)).toBeNull();
+    expect(budget.charge("batch", batch)).toMatchObject({
+      budget: "actions",
+      message: "Budget exhausted: 2 actions exceed the 1 left in this session.",
+    });
+    expect(budget.status()).toMatchObject({
+      actions: { used: 2 },
+      typed_chars: { used: 5, remaining: 5 },
+    });
+  });
+
+  it("limits actions per minute and says when to retry", () => {
+    const { budget, clock } = clocked({ maxActionsPerMinute: 2 });
+    budget.charge("click", { x: 1, y: 1 });
+    clock.now = 10_000;
+    budget.charge("click", { x: 1, y: 1 });
+
+    clock.now = 20_000;
+    expect(budget.charge("click", { x: 1, y: 1 })).toMatchObject({
+      budget: "actions_per_minute",
+      retry_after_ms: 40_000,
+    });
+    clock.now = 60_000;
+    expect(budget.charge("click", { x: 1, y: 1 })).toBeNull();
+    expect(budget.status().actions_per_minute).toEqual({
+      used: 2,
+      limit: 2,
+      remaining: 0,
+    });
+  });
+
+  it("limits cumulative wait time and typed characters", () => {
+    const { budget } = clocked({ maxWaitMs: 1500, maxTypedChars: 4 });
+    expect(budget.charge("wait", { ms: 1000 })).toBeNull();
+    expect(budget.charge("wait", { ms: 1000 })).toMatchObject({
+      budget: "wait_ms",
+      message:
+        "Budget exhausted: waiting 1000 ms exceeds the 500 ms of wait time left.",
+    });
+    expect(budget.charge("paste_text", { text: "hello" })).toMatchObject({
+      budget: "typed_chars",
+    });
+    expect(budget.charge("type", { text: "hi" })).toBeNull();
+  });
+
+  it("never lets a negative wait give time back", () => {
+    const { budget } = clocked({ maxWaitMs: 1000 });
+    expect(budget.charge("wait", { ms: -100_000 })).toBeNull();
+    expect(budget.charge("wait", { ms: 1000 })).toBeNull();
+    expect(budget.charge("wait", { ms: 1 })).toMatchObject({
+      budget: "wait_ms",
+    });
+  });
+
+  it("charges batch pauses and polling timeouts as wait time", () => {
+    const { budget } = clocked({ maxWaitMs: 10_000 });
+    const batch = {
+      actions: [
+        { action: "click", x: 1, y: 1 },
+        { action: "wait", ms: 500 },
+      ],
+      delay_ms: 2000,
+    };
+    expect(budget.charge("batch", batch)).toBeNull();
+    expect(budget.charge("wait_for_change", { timeout_ms: 5000 })).toBeNull();
+    expect(budget.status().wait_ms.used).toBe(9500);
+    expect(budget.charge("wait_for_image", { timeout_ms: 1000 })).toMatchObject(
+      {
+        budget: "wait_ms",
+        message:
+          "Budget exhausted: waiting 1000 ms exceeds the 500 ms of wait time left.",
+      },
+    );
+    // Polling is not an action
+    expect(budget.status().actions.used).toBe(2);
+  });
+
+  it("gives back polling time that went unused", () => {
+    const { budget } = clocked({ maxWaitMs: 10_000 });
+    const args = { timeout_ms: 8000 };
+    expect(budget.charge("wait_for_stable_screen", args)).toBeNull();
+    expect(budget.status().wait_ms.used).toBe(8000);
+
+    budget.settle("wait_for_stable_screen", args, 1200);
+    expect(budget.status().wait_ms.used).toBe(1200);
+
+    // Overrunning the timeout is not charged extra
+    budget.charge("wait_for_change", { timeout_ms: 1000 });
+    budget.settle("wait_for_change", { timeout_ms: 1000 }, 1500);
+    budget.settle("wait", { ms: 500 }, 0);
+    expect(budget.status().wait_ms.used).toBe(2200);
+  });
+
+  it("reports unlimited budgets as null", () => {
+    const { budget } = clocked({});
+    budget.charge("type", { text: "abc" });
+    expect(budget.status().typed_chars).toEqual({
+      used: 3,
+      limit: null,
+      remaining: null,
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import sharp from "sharp";
+import { compressImage, imageMimeType } from "../src/utils/compress-image.js";
+
+/** A 200x200 PNG of random colour noise, which compresses poorly. */
+async function noise(): Promise<Buffer> {
+  const raw = Buffer.alloc(200 * 200 * 3);
+  for (let i = 0; i < raw.length; i++) raw[i] = Math.floor(Math.random() * 256);
+  return sharp(raw, { raw: { width: 200, height: 200, channels: 3 } })
+    .png()
+    .toBuffer();
+}
+
+describe("compressImage", () => {
+  it("encodes PNG by default", async () => {
+    const out = await compressImage(await noise());
+    expect(imageMimeType(out)).toBe("image/png");
+  });
+
+  it("encodes the requested format", async () => {
+    const jpeg = await compressImage(await noise(), undefined, {
+      format: "jpeg",
+    });
+    expect(imageMimeType(jpeg)).toBe("image/jpeg");
+
+    const webp = await compressImage(await noise(), undefined, {
+      format: "webp",
+    });
+    expect(imageMimeType(webp)).toBe("image/webp");
+  });
+
+  it("falls back to JPEG when a PNG exceeds the byte budget", async () => {
+    const png = await compressImage(await noise());
+    const out = await compressImage(await noise(), undefined, {
+      maxBytes: png.length - 1,
+    });
+    expect(imageMimeType(out)).toBe("image/jpeg");
+    expect(out.length).toBeLessThan(png.length);
+  });
+
+  it("lowers lossy quality until the image fits", async () => {
+    const high = await compressImage(await noise(), undefined, {
+      format: "webp",
+      quality: 95,
+    });
+    const out = await compressImage(await noise(), undefined, {
+      format: "webp",
+      quality: 95,
+      maxBytes: Math.floor(high.length / 2),
+    });
+    expect(imageMimeType(out)).toBe("image/webp");
+    expect(out.length).toBeLessThanOrEqual(Math.floor(high.length / 2));
+  });
+
+  it("converts to grayscale on request", async () => {
+    const out = await compressImage(await noise(), undefined, {
+      grayscale: true,
+    });
+    const { channels } = await sharp(out).metadata();
+    expect(channels).toBe(1);
+  });
+
+  it("can enlarge when resizing", async () => {
+    const out = await compressImage(await noise(), {
+      width: 400,
+      height: 300,
+      enlarge: true,
+    });
+    const { width, height } = await sharp(out).metadata();
+    expect([width, height]).toEqual([300, 300]);
+  });
+});
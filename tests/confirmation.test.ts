@@ -0,0 +1,220 @@
+import { describe, it, expect } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import {
+  ElicitRequest,
+  ElicitRequestSchema,
+  ElicitResult,
+} from "@modelcontextprotocol/sdk/types.js";
+import sharp from "sharp";
+import { z } from "zod";
+
+import {
+  CONFIRMATION_SCREENSHOT_META,
+  ConfirmationComputer,
+  confirmationMiddleware,
+} from "../src/confirmation.js";
+import { withMiddleware } from "../src/middleware.js";
+import type { Policy } from "../src/policy.js";
+import { fakeComputer, solidPng as png } from "./test-helper.js";
+
+const policy: Policy = {
+  confirm: { keys: ["enter"], tools: ["click"], timeoutMs: 200 },
+};
+
+/** RGB of one pixel of a base64 PNG. */
+async function pixel(image: string, x: number, y: number) {
+  const { data, info } = await sharp(Buffer.from(image, "base64"))
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return [...data.subarray((y * info.width + x) * info.channels)].slice(0, 3);
+}
+
+/**
+ * A server with `click` and `keypress` tools behind the confirmation step,
+ * on a computer with a white display 0 and a black display 1, captured as
+ * PNG or JPEG.
+ */
+async function connect(
+  answer: (request: ElicitRequest) => Promise<ElicitResult>,
+  { elicitation = true, jpeg = false } = {},
+) {
+  const screens = await Promise.all(
+    ["#ffffff", "#000000"].map(async (colour) =>
+      jpeg
+        ? sharp(await png(colour))
+            .jpeg()
+            .toBuffer()
+        : png(colour),
+    ),
+  );
+  const computer: ConfirmationComputer = {
+    ...fakeComputer(),
+    screenshot: async (_encoding, id = 0) => screens[id].toString("base64"),
+  };
+
+  const ran: string[] = [];
+  const server = new McpServer({ name: "test", version: "0.0.1" });
+  const wrapped = withMiddleware(server, [
+    confirmationMiddleware(policy, computer, server),
+  ]);
+  wrapped.registerTool(
+    "click",
+    {
+      inputSchema: {
+        x: z.number(),
+        y: z.number(),
+        display: z.number().optional(),
+      },
+    },
+    async () => {
+      ran.push("click");
+      return { content: [{ type: "text", text: "Clicked." }] };
+    },
+  );
+  wrapped.registerTool(
+    "keypress",
+    { inputSchema: { keys: z.array(z.string()) } },
+    async () => {
+      ran.push("keypress");
+      return { content: [{ type: "text", text: "Pressed." }] };
+    },
+  );
+
+  const [clientTransport, serverTransport] =
+    InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  const client = new Client(
+    { name: "test-client", version: "0.0.1" },
+    { capabilities: elicitation ? { elicitation: { form: {} } } : {} },
+  );
+  if (elicitation) {
+    client.setRequestHandler(ElicitRequestSchema, (request) => answer(request));
+  }
+  await client.connect(clientTransport);
+  return { client, ran };
+}
+
+const textOf = (result: Awaited<ReturnType<Client["callTool"]>>) =>
+  (result.content as { text: string }[])[0].text;
+
+describe("confirmationMiddleware", () => {
+  it("runs a call once the user accepts it", async () => {
+    const requests: ElicitRequest[] = [];
+    const { client, ran } = await connect(async (request) => {
+      requests.push(request);
+      return { action: "accept", content: {} };
+    });
+
+    const result = await client.callTool({
+      name: "click",
+      arguments: { x: 40, y: 20 },
+    });
+    expect(result.isError).toBeFalsy();
+    expect(ran).toEqual(["click"]);
+
+    const { message, _meta } = requests[0].params;
+    expect(message).toBe(
+      'Allow click {"x":40,"y":20}?\n- click always needs confirmation.',
+    );
+    const screenshot = _meta?.[CONFIRMATION_SCREENSHOT_META] as {
+      data: string;
+      mimeType: string;
+    };
+    expect(screenshot.mimeType).toBe("image/png");
+    // The target point is circled in red
+    expect(await pixel(screenshot.data, 40, 20)).toEqual([255, 0, 0]);
+    expect(await pixel(screenshot.data, 90, 45)).toEqual([255, 255, 255]);
+  });
+
+  it("shows the display the call targets", async () => {
+    const requests: ElicitRequest[] = [];
+    const { client } = await connect(async (request) => {
+      requests.push(request);
+      return { action: "accept", content: {} };
+    });
+
+    await client.callTool({
+      name: "click",
+      arguments: { x: 40, y: 20, display: 1 },
+    });
+    const { data } = requests[0].params._meta?.[
+      CONFIRMATION_SCREENSHOT_META
+    ] as { data: string };
+    expect(await pixel(data, 40, 20)).toEqual([255, 0, 0]);
+    expect(await pixel(data, 90, 45)).toEqual([0, 0, 0]);
+  });
+
+  it("labels the screenshot with its actual encoding", async () => {
+    const requests: ElicitRequest[] = [];
+    const { client } = await connect(
+      async (request) => {
+        requests.push(request);
+        return { action: "accept", content: {} };
+      },
+      { jpeg: true },
+    );
+
+    await client.callTool({ name: "keypress", arguments: { keys: ["enter"] } });
+    const screenshot = requests[0].params._meta?.[
+      CONFIRMATION_SCREENSHOT_META
+    ] as { data: string; mimeType: string };
+    expect(screenshot.mimeType).toBe("image/jpeg");
+    expect(
+      (await sharp(Buffer.from(screenshot.data, "base64")).metadata()).format,
+    ).toBe("jpeg");
+  });
+
+  it("does not ask about calls no rule matches", async () => {
+    let asked = false;
+    const { client, ran } = await connect(async () => {
+      asked = true;
+      return { action: "accept", content: {} };
+    });
+
+    await client.callTool({ name: "keypress", arguments: { keys: ["tab"] } });
+    expect(asked).toBe(false);
+    expect(ran).toEqual(["keypress"]);
+  });
+
+  it("refuses a declined call", async () => {
+    const { client, ran } = await connect(async () => ({ action: "decline" }));
+
+    const result = await client.callTool({
+      name: "keypress",
+      arguments: { keys: ["Enter"] },
+    });
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toMatch(
+      /Not confirmed: the user declined keypress\./,
+    );
+    expect(ran).toEqual([]);
+  });
+
+  it("denies when no answer comes in time", async () => {
+    const { client, ran } = await connect(() => new Promise(() => {}));
+
+    const result = await client.callTool({
+      name: "click",
+      arguments: { x: 1, y: 1 },
+    });
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toMatch(/Not confirmed: no answer within 0.2 s\./);
+    expect(ran).toEqual([]);
+  });
+
+  it("denies when the client cannot be asked", async () => {
+    const { client, ran } = await connect(async () => ({ action: "accept" }), {
+      elicitation: false,
+    });
+
+    const result = await client.callTool({
+      name: "click",
+      arguments: { x: 1, y: 1 },
+    });
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toMatch(/Not confirmed: could not ask/);
+    expect(ran).toEqual([]);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from "vitest";
+import {
+  CoordinateSpace,
+  parseScalingDimension,
+} from "../src/utils/coordinate-space.js";
+
+describe("parseScalingDimension", () => {
+  it("parses both sides", () => {
+    expect(parseScalingDimension("1280x800")).toEqual({
+      maxWidth: 1280,
+      maxHeight: 800,
+    });
+  });
+
+  it("treats missing or zero sides as unlimited", () => {
+    expect(parseScalingDimension("1280x")).toEqual({
+      maxWidth: 1280,
+      maxHeight: null,
+    });
+    expect(parseScalingDimension("0x600")).toEqual({
+      maxWidth: null,
+      maxHeight: 600,
+    });
+    expect(parseScalingDimension(undefined)).toEqual({
+      maxWidth: null,
+      maxHeight: null,
+    });
+  });
+});
+
+describe("CoordinateSpace", () => {
+  it("is the identity without a scaling limit", () => {
+    const space = new CoordinateSpace(1920, 1080);
+    expect(space.isScaled).toBe(false);
+    expect(space.scalingFactor).toBe(1);
+    expect([space.scaledWidth, space.scaledHeight]).toEqual([1920, 1080]);
+    expect(space.toReal({ x: 10, y: 20 })).toEqual({ x: 10, y: 20 });
+  });
+
+  it("fits inside both limits preserving aspect ratio", () => {
+    const space = new CoordinateSpace(1920, 1080, {
+      maxScalingDimension: "1280x800",
+    });
+    expect(space.scalingFactor).toBeCloseTo(2 / 3);
+    expect([space.scaledWidth, space.scaledHeight]).toEqual([1280, 720]);
+  });
+
+  it("never enlarges a smaller screen", () => {
+    const space = new CoordinateSpace(800, 600, {
+      maxScalingDimension: "1280x800",
+    });
+    expect(space.isScaled).toBe(false);
+    expect([space.scaledWidth, space.scaledHeight]).toEqual([800, 600]);
+  });
+
+  it("supports a single limited side", () => {
+    const byWidth = new CoordinateSpace(2000, 1000, {
+      maxScalingDimension: "1000x",
+    });
+    expect([byWidth.scaledWidth, byWidth.scaledHeight]).toEqual([1000, 500]);
+
+    const byHeight = new CoordinateSpace(2000, 1000, {
+      maxScalingDimension: "x250",
+    });
+    expect([byHeight.scaledWidth, byHeight.scaledHeight]).toEqual([500, 250]);
+  });
+
+  it("maps points and lengths in both directions", () => {
+    const space = new CoordinateSpace(2000, 1000, {
+      maxScalingDimension: "1000x1000",
+    });
+    expect(space.toReal({ x: 100, y: 50 })).toEqual({ x: 200, y: 100 });
+    expect(space.toScaled({ x: 200, y: 100 })).toEqual({ x: 100, y: 50 });
+    expect(space.toRealLength(25)).toBe(50);
+    expect(space.toScaledLength(50)).toBe(25);
+  });
+
+  it("applies the rounding policy", () => {
+    const opts = { maxScalingDimension: "1000x1000" };
+    const point = { x: 10.2, y: 10.7 };
+
+    // 3000 -> 1000 gives a factor of 1/3
+    expect(new CoordinateSpace(3000, 3000, opts).toReal(point)).toEqual({
+      x: 31,
+      y: 32,
+    });
+    expect(
+      new CoordinateSpace(3000, 3000, { ...opts, rounding: "floor" }).toReal(
+        point,
+      ),
+    ).toEqual({ x: 30, y: 32 });
+    expect(
+      new CoordinateSpace(3000, 3000, { ...opts, rounding: "ceil" }).toReal(
+        point,
+      ),
+    ).toEqual({ x: 31, y: 33 });
+
+    const exact = new CoordinateSpace(3000, 3000, {
+      ...opts,
+      rounding: "none",
+    }).toReal(point);
+    expect(exact.x).toBeCloseTo(30.6);
+    expect(exact.y).toBeCloseTo(32.1);
+  });
+
+  it("checks and clamps bounds inclusively", () => {
+    const space = new CoordinateSpace(1920, 1080, {
+      maxScalingDimension: "1280x800",
+    });
+    expect(space.contains({ x: 1280, y: 720 })).toBe(true);
+    expect(space.contains({ x: 1281, y: 720 })).toBe(false);
+    expect(space.contains({ x: -1, y: 0 })).toBe(false);
+    expect(space.clamp({ x: 2000, y: -5 })).toEqual({ x: 1280, y: 0 });
+  });
+
+  it("names the surface in bounds errors", () => {
+    const space = new CoordinateSpace(1024, 768);
+    expect(() => space.assertWithinBounds({ x: 2000, y: 0 })).toThrow(
+      "Coordinates (2000, 0) are outside screen bounds (1024x768)",
+    );
+    expect(() =>
+      space.assertWithinBounds({ x: 0, y: 900 }, "viewport"),
+    ).toThrow(/outside viewport bounds/);
+  });
+});
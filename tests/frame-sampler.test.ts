@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import sharp from "sharp";
+import { encodeAnimation, FrameSampler } from "../src/utils/frame-sampler.js";
+import { solidPng as png } from "./test-helper.js";
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+describe("FrameSampler", () => {
+  it("keeps one frame per change, timed to cover the recording", async () => {
+    const red = await png("#ff0000");
+    const blue = await png("#0000ff");
+    let screen = red;
+    const sampler = new FrameSampler(async () => screen, { fps: 50 });
+
+    sampler.start();
+    await sleep(100);
+    screen = blue;
+    await sleep(100);
+    const sampled = await sampler.stop();
+
+    expect(sampled.frames).toEqual([red, blue]);
+    const total = sampled.delays.reduce((a, b) => a + b, 0);
+    expect(total).toBeLessThanOrEqual(sampled.durationMs);
+    expect(total).toBeGreaterThan(sampled.durationMs - 50);
+  });
+
+  it("drops every other frame once the limit is reached", async () => {
+    let n = 0;
+    const frames = await Promise.all(
+      ["#000000", "#333333", "#666666", "#999999", "#cccccc"].map((c) =>
+        png(c),
+      ),
+    );
+    const sampler = new FrameSampler(async () => frames[n++ % 5], {
+      fps: 100,
+      maxFrames: 4,
+    });
+
+    sampler.start();
+    await sleep(100);
+    const sampled = await sampler.stop();
+    expect(sampled.frames.length).toBeLessThanOrEqual(4);
+    expect(sampled.frames[0]).toEqual(frames[0]);
+  });
+
+  it("skips failed captures", async () => {
+    const frame = await png("#00ff00");
+    let calls = 0;
+    const sampler = new FrameSampler(
+      async () => {
+        if (calls++ === 0) throw new Error("capture failed");
+        return frame;
+      },
+      { fps: 50 },
+    );
+
+    sampler.start();
+    await sleep(60);
+    expect((await sampler.stop()).frames).toEqual([frame]);
+  });
+});
+
+describe("encodeAnimation", () => {
+  it("writes an animated WebP with one page per frame", async () => {
+    const animation = await encodeAnimation(
+      {
+        frames: [await png("#ff0000"), await png("#0000ff", 40)],
+        delays: [100, 200],
+        durationMs: 300,
+      },
+      "webp",
+    );
+    const meta = await sharp(animation, { animated: true }).metadata();
+    expect(meta.format).toBe("webp");
+    expect(meta.pages).toBe(2);
+    expect(meta.width).toBe(100);
+    expect(meta.delay).toEqual([100, 200]);
+  });
+
+  it("writes a GIF on request", async () => {
+    const animation = await encodeAnimation(
+      { frames: [await png("#ff0000")], delays: [500], durationMs: 500 },
+      "gif",
+    );
+    expect(animation.toString("ascii", 0, 3)).toBe("GIF");
+  });
+
+  it("rejects an empty recording", async () => {
+    await expect(
+      encodeAnimation({ frames: [], delays: [], durationMs: 0 }, "webp"),
+    ).rejects.toThrow("No frames were captured.");
+  });
+});
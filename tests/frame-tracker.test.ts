@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import sharp from "sharp";
+import { FrameTracker } from "../src/utils/frame-tracker.js";
+
+/** A 100x50 black PNG, optionally with a white 10x10 square at (x, y). */
+async function png(square?: { x: number; y: number }): Promise<Buffer> {
+  const base = sharp({
+    create: { width: 100, height: 50, channels: 3, background: "#000000" },
+  });
+  if (!square) return base.png().toBuffer();
+  const white = await sharp({
+    create: { width: 10, height: 10, channels: 3, background: "#ffffff" },
+  })
+    .png()
+    .toBuffer();
+  return base
+    .composite([{ input: white, left: square.x, top: square.y }])
+    .png()
+    .toBuffer();
+}
+
+describe("FrameTracker", () => {
+  it("has nothing to compare the first frame with", async () => {
+    const tracker = new FrameTracker();
+    expect(await tracker.update("a", await png())).toBeNull();
+  });
+
+  it("reports identical frames as unchanged", async () => {
+    const tracker = new FrameTracker();
+    await tracker.update("a", await png());
+    expect(await tracker.update("a", await png())).toEqual({
+      unchanged: true,
+      bounds: null,
+    });
+  });
+
+  it("locates what changed", async () => {
+    const tracker = new FrameTracker();
+    await tracker.update("a", await png());
+    expect(await tracker.update("a", await png({ x: 20, y: 30 }))).toEqual({
+      unchanged: false,
+      bounds: { x: 20, y: 30, width: 10, height: 10 },
+    });
+  });
+
+  it("keeps keys apart and compares against recorded frames", async () => {
+    const tracker = new FrameTracker();
+    tracker.record("a", await png());
+    await tracker.update("b", await png({ x: 0, y: 0 }));
+    expect((await tracker.update("a", await png()))?.unchanged).toBe(true);
+
+    tracker.clear();
+    expect(await tracker.update("a", await png())).toBeNull();
+  });
+});
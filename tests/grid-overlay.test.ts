@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest";
+import sharp from "sharp";
+import { decodeFrame, Frame } from "../src/utils/image-diff.js";
+import { drawGrid } from "../src/utils/grid-overlay.js";
+
+async function blank(): Promise<Buffer> {
+  return sharp({
+    create: { width: 250, height: 120, channels: 3, background: "#ffffff" },
+  })
+    .png()
+    .toBuffer();
+}
+
+/** Whether the pixel at (x, y) is no longer white. */
+const marked = (frame: Frame, x: number, y: number) =>
+  frame.data[y * frame.width + x] < 250;
+
+describe("drawGrid", () => {
+  it("draws lines at multiples of the spacing", async () => {
+    const frame = await decodeFrame(await drawGrid(await blank(), 100));
+    expect(marked(frame, 100, 60)).toBe(true);
+    expect(marked(frame, 200, 60)).toBe(true);
+    expect(marked(frame, 150, 100)).toBe(true);
+    expect(marked(frame, 150, 60)).toBe(false);
+  });
+
+  it("aligns lines to screen coordinates for region captures", async () => {
+    const frame = await decodeFrame(
+      await drawGrid(await blank(), 100, { x: 30, y: 50 }),
+    );
+    // Screen x=100 is image x=70, screen y=100 is image y=50
+    expect(marked(frame, 70, 90)).toBe(true);
+    expect(marked(frame, 150, 50)).toBe(true);
+    expect(marked(frame, 100, 90)).toBe(false);
+  });
+
+  it("keeps the image size", async () => {
+    const meta = await sharp(await drawGrid(await blank(), 50)).metadata();
+    expect([meta.width, meta.height]).toEqual([250, 120]);
+  });
+});
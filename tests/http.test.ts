@@ -0,0 +1,42 @@
+import { describe, it, expect, afterAll } from "vitest";
+import { spawnSync } from "node:child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+// ---------------------------------------------------------------------------
+// The HTTP server: settings it cannot honour stop it at startup
+// ---------------------------------------------------------------------------
+
+describe("HTTP server", () => {
+  const dir = mkdtempSync(path.join(os.tmpdir(), "computermate-http-"));
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("refuses to start with confirm rules", () => {
+    const policy = path.join(dir, "policy.json");
+    writeFileSync(policy, JSON.stringify({ confirm: { keys: ["enter"] } }));
+
+    const result = spawnSync("node", ["dist/http.js"], {
+      env: { ...process.env, COMPUTER_TYPE: "mock", POLICY_FILE: policy },
+      encoding: "utf8",
+      timeout: 15_000,
+    });
+    expect(result.status).toBe(1);
+    expect(result.stderr).toContain("not supported over HTTP");
+  });
+
+  it("refuses to start with an invalid budget limit", () => {
+    const result = spawnSync("node", ["dist/http.js"], {
+      env: { ...process.env, COMPUTER_TYPE: "mock", MAX_ACTIONS: "lots" },
+      encoding: "utf8",
+      timeout: 15_000,
+    });
+    expect(result.status).toBe(1);
+    expect(result.stderr).toContain(
+      'MAX_ACTIONS must be a non-negative integer, got "lots".',
+    );
+  });
+});
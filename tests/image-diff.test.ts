@@ -0,0 +1,156 @@
+import { describe, it, expect } from "vitest";
+import sharp from "sharp";
+import {
+  changedRegions,
+  cropFrame,
+  decodeFrame,
+  diffFrames,
+} from "../src/utils/image-diff.js";
+import { waitForChange, waitForStable } from "../src/utils/screen-wait.js";
+
+/** A 100x50 gray PNG, optionally with a white box drawn on it. */
+async function png(box?: {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}): Promise<Buffer> {
+  const base = sharp({
+    create: { width: 100, height: 50, channels: 3, background: "#404040" },
+  });
+  if (!box) return base.png().toBuffer();
+
+  const white = await sharp({
+    create: {
+      width: box.width,
+      height: box.height,
+      channels: 3,
+      background: "#ffffff",
+    },
+  })
+    .png()
+    .toBuffer();
+  return base
+    .composite([{ input: white, left: box.left, top: box.top }])
+    .png()
+    .toBuffer();
+}
+
+describe("diffFrames", () => {
+  it("reports no change for identical frames", async () => {
+    const a = await decodeFrame(await png());
+    const b = await decodeFrame(await png());
+    expect(diffFrames(a, b)).toEqual({
+      changedPixels: 0,
+      changedRatio: 0,
+      bounds: null,
+    });
+  });
+
+  it("bounds the changed pixels", async () => {
+    const a = await decodeFrame(await png());
+    const b = await decodeFrame(
+      await png({ left: 10, top: 5, width: 20, height: 10 }),
+    );
+    const diff = diffFrames(a, b);
+    expect(diff.changedPixels).toBe(200);
+    expect(diff.changedRatio).toBeCloseTo(200 / 5000);
+    expect(diff.bounds).toEqual({ x: 10, y: 5, width: 20, height: 10 });
+  });
+
+  it("treats frames of different sizes as fully changed", async () => {
+    const a = await decodeFrame(await png());
+    const b = await decodeFrame(
+      await sharp(await png())
+        .resize(50, 25)
+        .toBuffer(),
+    );
+    expect(diffFrames(a, b).changedRatio).toBe(1);
+  });
+});
+
+describe("changedRegions", () => {
+  it("returns nothing for identical frames", async () => {
+    const a = await decodeFrame(await png());
+    expect(changedRegions(a, a)).toEqual([]);
+  });
+
+  it("reports separate changes as separate regions, largest first", async () => {
+    const a = await decodeFrame(await png());
+    const b = await decodeFrame(
+      await sharp(await png({ left: 5, top: 5, width: 10, height: 10 }))
+        .composite([
+          {
+            input: await png({ left: 60, top: 20, width: 30, height: 20 }),
+            blend: "lighten",
+          },
+        ])
+        .png()
+        .toBuffer(),
+    );
+    expect(changedRegions(a, b)).toEqual([
+      { x: 60, y: 20, width: 30, height: 20 },
+      { x: 5, y: 5, width: 10, height: 10 },
+    ]);
+  });
+});
+
+describe("cropFrame", () => {
+  it("cuts out a rectangle, clamped to the frame", async () => {
+    const frame = await decodeFrame(
+      await png({ left: 90, top: 40, width: 10, height: 10 }),
+    );
+    const crop = cropFrame(frame, { x: 80, y: 30, width: 50, height: 50 });
+    expect(crop.width).toBe(20);
+    expect(crop.height).toBe(20);
+    expect(crop.data[0]).toBe(0x40);
+    expect(crop.data[crop.data.length - 1]).toBe(0xff);
+  });
+});
+
+describe("screen polling", () => {
+  const options = { intervalMs: 10, timeoutMs: 500, threshold: 0.01 };
+
+  /** Capture callback that plays back the given frames, repeating the last. */
+  function playback(frames: Buffer[]): () => Promise<string> {
+    let i = 0;
+    return async () =>
+      frames[Math.min(i++, frames.length - 1)].toString("base64");
+  }
+
+  it("waitForStable resolves once consecutive frames match", async () => {
+    const moving = [
+      await png({ left: 0, top: 0, width: 20, height: 20 }),
+      await png({ left: 40, top: 0, width: 20, height: 20 }),
+      await png({ left: 80, top: 0, width: 20, height: 20 }),
+    ];
+    const result = await waitForStable(playback(moving), options);
+    expect(result.timedOut).toBe(false);
+    expect(result.diff?.changedPixels).toBe(0);
+  });
+
+  it("waitForChange reports where the screen changed", async () => {
+    const frames = [
+      await png(),
+      await png(),
+      await png({ left: 60, top: 20, width: 10, height: 10 }),
+    ];
+    const result = await waitForChange(playback(frames), options);
+    expect(result.timedOut).toBe(false);
+    expect(result.diff?.bounds).toEqual({
+      x: 60,
+      y: 20,
+      width: 10,
+      height: 10,
+    });
+  });
+
+  it("waitForChange times out on a static screen", async () => {
+    const result = await waitForChange(playback([await png()]), {
+      ...options,
+      timeoutMs: 50,
+    });
+    expect(result.timedOut).toBe(true);
+    expect(result.waitedMs).toBeGreaterThanOrEqual(50);
+  });
+});
@@ -31,7 +31,7 @@ function imageData(result: CallToolResult): string {
 
 describe("in-memory MCP server (linux)", () => {
   beforeAll(async () => {
-    computer = new NativeComputer();
+    computer = await NativeComputer.create();
 
     server = new McpServer({ name: "computermate", version: "0.0.1" });
     registerTools(server, computer);
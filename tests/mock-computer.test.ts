@@ -0,0 +1,230 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import sharp from "sharp";
+
+import {
+  DEFAULT_MOCK_SCENE,
+  loadMockScene,
+  MockComputer,
+  MockScene,
+} from "../src/computers/mock-computer.js";
+
+const scene: MockScene = {
+  width: 400,
+  height: 200,
+  elements: [
+    { id: "field", type: "text_field", x: 10, y: 10, width: 200, height: 30 },
+    { id: "other", type: "text_field", x: 10, y: 50, width: 200, height: 30 },
+    {
+      id: "go",
+      type: "button",
+      label: "Go",
+      x: 10,
+      y: 100,
+      width: 80,
+      height: 30,
+      onClick: { show: ["result"], hide: ["go"] },
+    },
+    {
+      id: "result",
+      type: "text",
+      text: "Done",
+      x: 10,
+      y: 150,
+      width: 100,
+      height: 30,
+      hidden: true,
+    },
+  ],
+};
+
+const valueOf = (computer: MockComputer, id: string) => {
+  const element = computer.getElement(id);
+  return element.type === "text_field" ? element.value : undefined;
+};
+
+describe("MockComputer", () => {
+  it("renders the scene at its size", async () => {
+    const computer = new MockComputer();
+    const image = Buffer.from(await computer.screenshot(), "base64");
+    const { width, height, format } = await sharp(image).metadata();
+    expect([width, height, format]).toEqual([800, 600, "png"]);
+    expect(await computer.getDimensions()).toEqual([800, 600]);
+  });
+
+  it("renders equal states identically", async () => {
+    const a = new MockComputer({ scene });
+    const b = new MockComputer({ scene });
+    await a.click(20, 20);
+    await b.click(20, 20);
+    expect(await a.screenshot()).toBe(await b.screenshot());
+
+    await b.type("x");
+    expect(await a.screenshot()).not.toBe(await b.screenshot());
+  });
+
+  it("types into the clicked text field", async () => {
+    const computer = new MockComputer({ scene });
+    await computer.type("ignored");
+    await computer.click(20, 20);
+    await computer.type("hello");
+    await computer.keypress(["backspace"]);
+    await computer.keypress(["shift", "a"]);
+
+    expect(computer.getFocusedElement()).toBe("field");
+    expect(valueOf(computer, "field")).toBe("hellA");
+    expect(valueOf(computer, "other")).toBeUndefined();
+  });
+
+  it("moves focus with Tab and pastes from the clipboard", async () => {
+    const computer = new MockComputer({ scene });
+    await computer.click(20, 20);
+    await computer.keypress(["Tab"]);
+    await computer.setClipboard("copied");
+    await computer.keypress(["ctrl", "v"]);
+    await computer.pasteText("!");
+
+    expect(valueOf(computer, "other")).toBe("copied!");
+    expect(await computer.getClipboard()).toBe("!");
+  });
+
+  it("runs a button's onClick and counts clicks", async () => {
+    const computer = new MockComputer({ scene });
+    await computer.click(20, 110);
+
+    expect(computer.getElement("go")).toMatchObject({
+      clicks: 1,
+      hidden: true,
+    });
+    expect(computer.getElement("result").hidden).toBe(false);
+    // The original scene is left untouched
+    expect(scene.elements[3].hidden).toBe(true);
+  });
+
+  it("clicks with mouse_down and mouse_up at the pointer", async () => {
+    const computer = new MockComputer({ scene });
+    await computer.move(20, 60);
+    await computer.mouseDown();
+    expect(computer.getHeldInputs().buttons).toEqual(["left"]);
+    await computer.mouseUp();
+    expect(computer.getFocusedElement()).toBe("other");
+  });
+
+  it("logs calls that act or capture", async () => {
+    const computer = new MockComputer({ scene });
+    await computer.click(20, 20, "left", { clicks: 1 });
+    await computer.getDimensions();
+    await computer.type("a");
+    await computer.wait(0);
+
+    expect(computer.getCalls()).toEqual([
+      { method: "click", args: [20, 20, "left", { clicks: 1 }] },
+      { method: "type", args: ["a"] },
+      { method: "wait", args: [0] },
+    ]);
+    computer.clearCalls();
+    expect(computer.getCalls()).toEqual([]);
+  });
+
+  it("scales coordinates and screenshots", async () => {
+    const computer = new MockComputer({
+      scene,
+      maxScalingDimension: "200x100",
+    });
+    expect(await computer.getDimensions()).toEqual([200, 100]);
+
+    await computer.click(10, 55);
+    expect(computer.getElement("result").hidden).toBe(false);
+    await expect(computer.click(300, 10)).rejects.toThrow(/outside/);
+
+    const image = Buffer.from(await computer.screenshot(), "base64");
+    expect((await sharp(image).metadata()).width).toBe(200);
+    const region = Buffer.from(
+      await computer.screenshotRegion({ x: 0, y: 0 }, { x: 50, y: 25 }),
+      "base64",
+    );
+    expect((await sharp(region).metadata()).width).toBe(50);
+    const zoomed = Buffer.from(
+      await computer.zoom({ x: 0, y: 0 }, { x: 50, y: 25 }),
+      "base64",
+    );
+    expect((await sharp(zoomed).metadata()).width).toBe(100);
+  });
+
+  it("replaces the scene only with one of the same size", () => {
+    const computer = new MockComputer({ scene });
+    computer.setScene({ ...scene, elements: [] });
+    expect(computer.getScene().elements).toEqual([]);
+    expect(() => computer.setScene(DEFAULT_MOCK_SCENE)).toThrow(
+      "Scene size 800x600 differs from 400x200.",
+    );
+  });
+
+  it("rejects invalid scenes given in code", () => {
+    const duplicate = {
+      ...scene,
+      elements: [scene.elements[0], scene.elements[0]],
+    };
+    expect(() => new MockComputer({ scene: duplicate })).toThrow(
+      /Invalid scene: .*Duplicate element id "field"/s,
+    );
+
+    const computer = new MockComputer({ scene });
+    expect(() => computer.setScene(duplicate)).toThrow(/Duplicate element id/);
+    expect(() => computer.setScene({ ...scene, width: -1 })).toThrow(
+      /Invalid scene/,
+    );
+    expect(computer.getScene()).toEqual(scene);
+  });
+});
+
+describe("loadMockScene", () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+  });
+
+  function write(content: unknown): string {
+    dir = mkdtempSync(path.join(os.tmpdir(), "computermate-scene-"));
+    const file = path.join(dir, "scene.json");
+    writeFileSync(file, JSON.stringify(content));
+    return file;
+  }
+
+  it("reads a valid scene", () => {
+    expect(loadMockScene(write(scene))).toEqual(scene);
+  });
+
+  it("rejects duplicate ids and unknown onClick targets", () => {
+    const box = { x: 0, y: 0, width: 1, height: 1 };
+    const file = write({
+      width: 10,
+      height: 10,
+      elements: [
+        { id: "a", type: "text", text: "A", ...box },
+        { id: "a", type: "text", text: "B", ...box },
+        {
+          id: "b",
+          type: "button",
+          label: "B",
+          ...box,
+          onClick: { hide: ["missing"] },
+        },
+      ],
+    });
+    expect(() => loadMockScene(file)).toThrow(/Duplicate element id "a"/);
+    expect(() => loadMockScene(file)).toThrow(/No element "missing"/);
+  });
+
+  it("rejects unknown element types", () => {
+    const file = write({
+      width: 10,
+      height: 10,
+      elements: [{ id: "a", type: "slider", x: 0, y: 0, width: 1, height: 1 }],
+    });
+    expect(() => loadMockScene(file)).toThrow(/Invalid scene file/);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import sharp from "sharp";
+import { McpTestClient } from "./test-helper.js";
+
+// ---------------------------------------------------------------------------
+// `computermate mock`: the full tool layer over the in-memory backend
+// ---------------------------------------------------------------------------
+
+const client = new McpTestClient("mock");
+
+describe("mock MCP server", () => {
+  beforeAll(async () => {
+    await client.setup();
+  }, 15_000);
+
+  afterAll(async () => {
+    await client.teardown();
+  });
+
+  it("lists the core tools only", async () => {
+    const { tools } = await client.listTools();
+    const names = tools.map((t) => t.name);
+
+    expect(names).toContain("screenshot");
+    expect(names).toContain("click");
+    expect(names).toContain("type");
+    expect(names).toContain("batch");
+    expect(names).toContain("get_budget");
+    expect(names).not.toContain("goto");
+  });
+
+  it("get_environment returns linux", async () => {
+    const result = await client.callTool("get_environment");
+    expect(McpTestClient.text(result)).toBe("linux");
+  });
+
+  it("screenshot returns the 800x600 default scene", async () => {
+    const result = await client.callTool("screenshot");
+    const image = Buffer.from(McpTestClient.imageData(result), "base64");
+    const { width, height } = await sharp(image).metadata();
+    expect([width, height]).toEqual([800, 600]);
+  });
+
+  it("fills in and submits the sign-up form", async () => {
+    const result = await client.callTool("batch", {
+      actions: [
+        { action: "click", x: 100, y: 118 },
+        { action: "type", text: "Ada" },
+        { action: "keypress", keys: ["Tab"] },
+        { action: "type", text: "ada@example.com" },
+        { action: "click", x: 100, y: 240 },
+      ],
+      delay_ms: 0,
+    });
+    expect(result.isError).toBeFalsy();
+
+    // The confirmation line appears below the button
+    const zoom = await client.callTool("screenshot_region", {
+      x1: 40,
+      y1: 290,
+      x2: 440,
+      y2: 320,
+    });
+    const { channels, isOpaque } = await sharp(
+      Buffer.from(McpTestClient.imageData(zoom), "base64"),
+    ).stats();
+    expect(isOpaque).toBe(true);
+    expect(channels[0].min).toBeLessThan(100);
+  });
+
+  it("reports clicks outside the scene as errors", async () => {
+    const result = await client.callTool("click", { x: 900, y: 10 });
+    expect(result.isError).toBe(true);
+    expect(McpTestClient.text(result)).toMatch(/outside screen bounds/);
+  });
+});
+
+describe("mock MCP server with MOCK_SCENE", () => {
+  const dir = mkdtempSync(path.join(os.tmpdir(), "computermate-mock-"));
+  const custom = new McpTestClient("mock");
+
+  beforeAll(async () => {
+    const file = path.join(dir, "scene.json");
+    writeFileSync(
+      file,
+      JSON.stringify({
+        width: 320,
+        height: 240,
+        elements: [
+          {
+            id: "ok",
+            type: "button",
+            label: "OK",
+            x: 10,
+            y: 10,
+            width: 60,
+            height: 30,
+          },
+        ],
+      }),
+    );
+    await custom.setup({ MOCK_SCENE: file });
+  }, 15_000);
+
+  afterAll(async () => {
+    await custom.teardown();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("renders the scene from the file", async () => {
+    const result = await custom.callTool("get_dimensions");
+    expect(JSON.parse(McpTestClient.text(result))).toEqual({
+      width: 320,
+      height: 240,
+    });
+  });
+});
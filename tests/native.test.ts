@@ -1,4 +1,6 @@
 import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { existsSync, rmSync } from "node:fs";
+import sharp from "sharp";
 import { McpTestClient } from "./test-helper.js";
 
 // ---------------------------------------------------------------------------
@@ -48,6 +50,27 @@ describe(`native (${type}) MCP server`, () => {
     expect(names).toContain("wait");
     expect(names).toContain("get_dimensions");
     expect(names).toContain("get_environment");
+    expect(names).toContain("list_displays");
+    expect(names).toContain("select_display");
+    expect(names).toContain("mouse_down");
+    expect(names).toContain("batch");
+    expect(names).toContain("get_cursor_position");
+    expect(names).toContain("clipboard_get");
+    expect(names).toContain("clipboard_set");
+    expect(names).toContain("paste_text");
+    expect(names).toContain("wait_for_stable_screen");
+    expect(names).toContain("wait_for_change");
+    expect(names).toContain("find_image");
+    expect(names).toContain("zoom");
+    expect(names).toContain("screenshot_diff");
+    expect(names).toContain("start_recording");
+    expect(names).toContain("stop_recording");
+    expect(names).toContain("wait_for_image");
+    expect(names).toContain("mouse_up");
+    expect(names).toContain("key_down");
+    expect(names).toContain("key_up");
+    expect(names).toContain("get_budget");
+    expect(names).toContain("release_all");
 
     // Should NOT have Playwright-only tools
     expect(names).not.toContain("goto");
@@ -72,6 +95,47 @@ describe(`native (${type}) MCP server`, () => {
     expect(dims.height).toBeGreaterThan(0);
   });
 
+  // -- get_budget ---------------------------------------------------------
+
+  it("get_budget counts actions but not observations", async () => {
+    const before = JSON.parse(
+      McpTestClient.text(await client.callTool("get_budget")),
+    );
+    await client.callTool("screenshot");
+    await client.callTool("wait", { ms: 100 });
+    const after = JSON.parse(
+      McpTestClient.text(await client.callTool("get_budget")),
+    );
+
+    expect(after.actions.used).toBe(before.actions.used + 1);
+    expect(after.wait_ms.used).toBe(before.wait_ms.used + 100);
+    expect(after.actions.limit).toBeNull();
+  });
+
+  // -- list_displays / select_display -------------------------------------
+
+  it("list_displays returns the selected display", async () => {
+    const result = await client.callTool("list_displays");
+    const { selected, displays } = JSON.parse(McpTestClient.text(result));
+    expect(displays.length).toBeGreaterThan(0);
+    expect(displays.map((d: { id: number }) => d.id)).toContain(selected);
+  });
+
+  it("select_display rejects unknown ids", async () => {
+    const result = await client.callTool("select_display", { id: -12345 });
+    expect(result.isError).toBe(true);
+    expect(McpTestClient.text(result)).toMatch(/not found/i);
+  });
+
+  it("screenshot accepts a per-call display", async () => {
+    const list = await client.callTool("list_displays");
+    const { displays } = JSON.parse(McpTestClient.text(list));
+    const result = await client.callTool("screenshot", {
+      display: displays[displays.length - 1].id,
+    });
+    expect(McpTestClient.imageData(result).length).toBeGreaterThan(0);
+  });
+
   // -- screenshot ---------------------------------------------------------
 
   it("screenshot returns base64 PNG image", async () => {
@@ -88,6 +152,35 @@ describe(`native (${type}) MCP server`, () => {
     expect(buf[3]).toBe(71); // G
   });
 
+  it("screenshot honours the requested encoding", async () => {
+    const result = await client.callTool("screenshot", {
+      format: "jpeg",
+      quality: 50,
+    });
+    const image = result.content.find((c) => c.type === "image");
+    expect(image).toMatchObject({ mimeType: "image/jpeg" });
+
+    const buf = Buffer.from(McpTestClient.imageData(result), "base64");
+    expect(buf[0]).toBe(0xff); // JPEG magic
+    expect(buf[1]).toBe(0xd8);
+  });
+
+  it("screenshot overlays a coordinate grid on request", async () => {
+    const plain = McpTestClient.imageData(
+      await client.callTool("screenshot", { grid: 0 }),
+    );
+    const gridded = McpTestClient.imageData(
+      await client.callTool("screenshot", { grid: 100 }),
+    );
+    expect(gridded).not.toBe(plain);
+
+    const meta = await sharp(Buffer.from(gridded, "base64")).metadata();
+    const dims = JSON.parse(
+      McpTestClient.text(await client.callTool("get_dimensions")),
+    );
+    expect([meta.width, meta.height]).toEqual([dims.width, dims.height]);
+  });
+
   // -- screenshot_region --------------------------------------------------
 
   it("screenshot_region returns base64 PNG image", async () => {
@@ -116,6 +209,45 @@ describe(`native (${type}) MCP server`, () => {
     expect(McpTestClient.text(result)).toMatch(/outside/i);
   });
 
+  it("zoom fits the region into the requested size", async () => {
+    const result = await client.callTool("zoom", {
+      x1: 0,
+      y1: 0,
+      x2: 40,
+      y2: 20,
+      width: 400,
+    });
+    const buf = Buffer.from(McpTestClient.imageData(result), "base64");
+    const { width, height } = await sharp(buf).metadata();
+    expect(width).toBe(400);
+    expect(height).toBe(200);
+  });
+
+  // -- recording ----------------------------------------------------------
+
+  it("start_recording and stop_recording save a recording", async () => {
+    const started = await client.callTool("start_recording", {
+      fps: 5,
+      format: "gif",
+    });
+    expect(McpTestClient.text(started)).toBe("Recording started.");
+    await client.callTool("move", { x: 50, y: 50 });
+    await client.callTool("wait", { ms: 500 });
+
+    const stopped = await client.callTool("stop_recording");
+    const recording = JSON.parse(McpTestClient.text(stopped));
+    expect(recording.mime_type).toBe("image/gif");
+    expect(recording.duration_ms).toBeGreaterThan(0);
+    expect(existsSync(recording.path)).toBe(true);
+    rmSync(recording.path);
+  });
+
+  it("stop_recording fails when nothing is recording", async () => {
+    const result = await client.callTool("stop_recording");
+    expect(result.isError).toBe(true);
+    expect(McpTestClient.text(result)).toMatch(/no recording/i);
+  });
+
   // -- click --------------------------------------------------------------
 
   it("click executes without error", async () => {
@@ -132,6 +264,35 @@ describe(`native (${type}) MCP server`, () => {
     expect(McpTestClient.text(result)).toBe("Clicked.");
   });
 
+  it("click with modifiers and a click count", async () => {
+    const result = await client.callTool("click", {
+      x: 100,
+      y: 100,
+      modifiers: ["shift"],
+      clicks: 3,
+    });
+    expect(McpTestClient.text(result)).toBe("Clicked.");
+  });
+
+  it("click rejects more than three clicks", async () => {
+    const result = await client.callTool("click", {
+      x: 100,
+      y: 100,
+      clicks: 4,
+    });
+    expect(result.isError).toBe(true);
+  });
+
+  it("click can return a post-action screenshot", async () => {
+    const result = await client.callTool("click", {
+      x: 100,
+      y: 100,
+      screenshot: true,
+    });
+    expect(McpTestClient.text(result)).toBe("Clicked.");
+    expect(McpTestClient.imageData(result).length).toBeGreaterThan(0);
+  });
+
   // -- double_click -------------------------------------------------------
 
   it("double_click executes without error", async () => {
@@ -146,6 +307,15 @@ describe(`native (${type}) MCP server`, () => {
     expect(McpTestClient.text(result)).toBe("Moved.");
   });
 
+  it("get_cursor_position reports the last move", async () => {
+    await client.callTool("move", { x: 320, y: 240 });
+    const result = await client.callTool("get_cursor_position");
+    const pos = JSON.parse(McpTestClient.text(result));
+    expect(pos.x).toBe(320);
+    expect(pos.y).toBe(240);
+    expect(pos.on_display).toBe(true);
+  });
+
   // -- scroll -------------------------------------------------------------
 
   it("scroll executes without error", async () => {
@@ -190,6 +360,121 @@ describe(`native (${type}) MCP server`, () => {
     expect(McpTestClient.text(result)).toBe("Dragged.");
   });
 
+  // -- press / release ----------------------------------------------------
+
+  it("mouse_down and mouse_up track the held button", async () => {
+    const down = await client.callTool("mouse_down", {
+      x: 150,
+      y: 150,
+      button: "left",
+    });
+    expect(McpTestClient.text(down)).toBe("Pressed left. Held: left button.");
+
+    const up = await client.callTool("mouse_up", { x: 250, y: 250 });
+    expect(McpTestClient.text(up)).toBe("Released left. Nothing held.");
+  });
+
+  it("key_down is released by release_all", async () => {
+    const down = await client.callTool("key_down", { key: "shift" });
+    expect(McpTestClient.text(down)).toMatch(/^Pressed shift\. Held: /);
+
+    const released = await client.callTool("release_all");
+    expect(McpTestClient.text(released)).toBe("Released all inputs.");
+  });
+
+  // -- batch --------------------------------------------------------------
+
+  it("batch runs steps in order and returns a screenshot", async () => {
+    const result = await client.callTool("batch", {
+      actions: [
+        { action: "click", x: 100, y: 100 },
+        { action: "type", text: "hi" },
+        { action: "keypress", keys: ["enter"] },
+      ],
+      delay_ms: 10,
+      screenshot: true,
+    });
+    expect(result.isError).toBeFalsy();
+    expect(McpTestClient.text(result)).toBe(
+      "1. click: Clicked.\n2. type: Typed.\n3. keypress: Key(s) pressed.",
+    );
+    expect(McpTestClient.imageData(result).length).toBeGreaterThan(0);
+  });
+
+  it("batch stops at the first failing step", async () => {
+    const result = await client.callTool("batch", {
+      actions: [
+        { action: "move", x: 10, y: 10 },
+        { action: "click", x: -100, y: -100 },
+        { action: "type", text: "never typed" },
+      ],
+    });
+    expect(result.isError).toBe(true);
+    const text = McpTestClient.text(result);
+    expect(text).toMatch(/^1\. move: Moved\.\n2\. click: failed: .*outside/);
+    expect(text).toMatch(/Stopped after step 2 of 3\.$/);
+  });
+
+  // -- clipboard ----------------------------------------------------------
+
+  it("clipboard_set and clipboard_get round-trip text", async () => {
+    const set = await client.callTool("clipboard_set", { text: "mate 710" });
+    expect(McpTestClient.text(set)).toBe("Clipboard set.");
+
+    const get = await client.callTool("clipboard_get");
+    expect(McpTestClient.text(get)).toBe("mate 710");
+  });
+
+  it("paste_text executes without error", async () => {
+    const result = await client.callTool("paste_text", { text: "pasted" });
+    expect(McpTestClient.text(result)).toBe("Pasted.");
+  });
+
+  // -- screen synchronisation ---------------------------------------------
+
+  it("wait_for_stable_screen reports how long it waited", async () => {
+    const result = await client.callTool("wait_for_stable_screen", {
+      timeout_ms: 5000,
+    });
+    const status = JSON.parse(McpTestClient.text(result));
+    expect(typeof status.stable).toBe("boolean");
+    expect(status.waited_ms).toBeGreaterThanOrEqual(0);
+  });
+
+  it("wait_for_change times out on an untouched region", async () => {
+    const result = await client.callTool("wait_for_change", {
+      region: { x1: 0, y1: 0, x2: 5, y2: 5 },
+      timeout_ms: 300,
+      threshold: 1,
+    });
+    const status = JSON.parse(McpTestClient.text(result));
+    expect(status.changed).toBe(false);
+    expect(status.waited_ms).toBeGreaterThanOrEqual(300);
+  });
+
+  // -- template matching --------------------------------------------------
+
+  it("find_image locates a crop of the current screen", async () => {
+    const crop = await client.callTool("screenshot_region", {
+      x1: 40,
+      y1: 30,
+      x2: 80,
+      y2: 60,
+    });
+    const template = McpTestClient.imageData(crop);
+
+    const result = await client.callTool("find_image", { template });
+    const { matches } = JSON.parse(McpTestClient.text(result));
+    expect(matches.length).toBeGreaterThan(0);
+    expect(matches[0].score).toBeGreaterThanOrEqual(0.9);
+    expect(matches[0]).toMatchObject({ width: 40, height: 30 });
+  });
+
+  it("find_image requires a template", async () => {
+    const result = await client.callTool("find_image", {});
+    expect(result.isError).toBe(true);
+  });
+
   // -- wait ---------------------------------------------------------------
 
   it("wait completes in expected time", async () => {
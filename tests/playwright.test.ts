@@ -1,7 +1,10 @@
 import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { existsSync, rmSync } from "node:fs";
+import sharp from "sharp";
 import { McpTestClient } from "./test-helper.js";
 
 const client = new McpTestClient("playwright");
+const scaledClient = new McpTestClient("playwright");
 
 describe("playwright MCP server", () => {
   beforeAll(async () => {
@@ -30,12 +33,33 @@ describe("playwright MCP server", () => {
     expect(names).toContain("wait");
     expect(names).toContain("get_dimensions");
     expect(names).toContain("get_environment");
+    expect(names).toContain("mouse_down");
+    expect(names).toContain("batch");
+    expect(names).toContain("get_cursor_position");
+    expect(names).toContain("clipboard_get");
+    expect(names).toContain("clipboard_set");
+    expect(names).toContain("paste_text");
+    expect(names).toContain("wait_for_stable_screen");
+    expect(names).toContain("wait_for_change");
+    expect(names).toContain("find_image");
+    expect(names).toContain("zoom");
+    expect(names).toContain("screenshot_diff");
+    expect(names).toContain("start_recording");
+    expect(names).toContain("stop_recording");
+    expect(names).toContain("wait_for_image");
+    expect(names).toContain("mouse_up");
+    expect(names).toContain("key_down");
+    expect(names).toContain("key_up");
+    expect(names).toContain("get_budget");
 
     // Playwright-only tools
     expect(names).toContain("goto");
     expect(names).toContain("back");
     expect(names).toContain("forward");
     expect(names).toContain("get_current_url");
+    expect(names).toContain("get_accessibility_tree");
+    expect(names).toContain("screenshot_with_marks");
+    expect(names).toContain("click_mark");
   });
 
   // -- get_environment ----------------------------------------------------
@@ -68,6 +92,103 @@ describe("playwright MCP server", () => {
     expect(buf[3]).toBe(71);
   });
 
+  it("screenshot with dedupe skips an unchanged screen", async () => {
+    await client.callTool("goto", { url: "about:blank" });
+    const first = await client.callTool("screenshot", { dedupe: true });
+    expect(McpTestClient.imageData(first).length).toBeGreaterThan(0);
+
+    const second = await client.callTool("screenshot", { dedupe: true });
+    expect(second.content).toEqual([
+      { type: "text", text: "Screen unchanged since last screenshot." },
+    ]);
+  });
+
+  it("screenshot with dedupe compares only like captures", async () => {
+    await client.callTool("goto", { url: "about:blank" });
+    await client.callTool("screenshot", { dedupe: true });
+
+    for (const args of [{ format: "jpeg" }, { grid: 100 }]) {
+      const result = await client.callTool("screenshot", {
+        dedupe: true,
+        ...args,
+      });
+      expect(McpTestClient.imageData(result).length).toBeGreaterThan(0);
+    }
+  });
+
+  it("screenshot_diff compares the screen with an earlier frame", async () => {
+    const html =
+      "<body style='margin:0'>" +
+      "<div style='width:100px;height:50px;background:#000'" +
+      " onclick=\"this.style.background='#fff'\"></div></body>";
+    await client.callTool("goto", {
+      url: `data:text/html,${encodeURIComponent(html)}`,
+    });
+
+    const shot = await client.callTool("screenshot");
+    const frameId = Number(
+      /^Frame id: (\d+)$/.exec(McpTestClient.text(shot))![1],
+    );
+
+    const same = JSON.parse(
+      McpTestClient.text(
+        await client.callTool("screenshot_diff", { frame_id: frameId }),
+      ),
+    );
+    expect(same).toMatchObject({
+      frame_id: frameId,
+      changed: false,
+      regions: [],
+    });
+
+    await client.callTool("click", { x: 50, y: 25, screenshot: false });
+    const result = await client.callTool("screenshot_diff", {
+      frame_id: frameId,
+      highlight: true,
+    });
+    const diff = JSON.parse(McpTestClient.text(result));
+    expect(diff.changed).toBe(true);
+    expect(diff.change_percent).toBeGreaterThan(0);
+    expect(diff.current_frame_id).toBeGreaterThan(same.current_frame_id);
+    expect(McpTestClient.imageData(result).length).toBeGreaterThan(0);
+  });
+
+  it("screenshot_diff rejects unknown frame ids", async () => {
+    const result = await client.callTool("screenshot_diff", {
+      frame_id: 99999,
+    });
+    expect(result.isError).toBe(true);
+  });
+
+  it("screenshot honours the requested encoding", async () => {
+    const result = await client.callTool("screenshot", {
+      format: "jpeg",
+      quality: 50,
+    });
+    const image = result.content.find((c) => c.type === "image");
+    expect(image).toMatchObject({ mimeType: "image/jpeg" });
+
+    const buf = Buffer.from(McpTestClient.imageData(result), "base64");
+    expect(buf[0]).toBe(0xff); // JPEG magic
+    expect(buf[1]).toBe(0xd8);
+  });
+
+  it("screenshot overlays a coordinate grid on request", async () => {
+    const plain = McpTestClient.imageData(
+      await client.callTool("screenshot", { grid: 0 }),
+    );
+    const gridded = McpTestClient.imageData(
+      await client.callTool("screenshot", { grid: 100 }),
+    );
+    expect(gridded).not.toBe(plain);
+
+    const meta = await sharp(Buffer.from(gridded, "base64")).metadata();
+    const dims = JSON.parse(
+      McpTestClient.text(await client.callTool("get_dimensions")),
+    );
+    expect([meta.width, meta.height]).toEqual([dims.width, dims.height]);
+  });
+
   // -- screenshot_region --------------------------------------------------
 
   it("screenshot_region returns valid PNG", async () => {
@@ -126,6 +247,113 @@ describe("playwright MCP server", () => {
     expect(McpTestClient.text(fwdUrl)).toContain("example.org");
   });
 
+  // -- get_accessibility_tree ---------------------------------------------
+
+  it("get_accessibility_tree lists roles, names and boxes with stable refs", async () => {
+    const html =
+      '<h1>Login</h1><label>User <input value="ada"></label>' +
+      '<button style="position:absolute;left:100px;top:200px;width:80px;height:30px">Sign in</button>';
+    await client.callTool("goto", {
+      url: `data:text/html,${encodeURIComponent(html)}`,
+    });
+
+    const first = McpTestClient.text(
+      await client.callTool("get_accessibility_tree"),
+    );
+    expect(first).toMatch(/- heading "Login" \[level=1\] \[ref=e\d+\]/);
+    expect(first).toContain('textbox "User" value="ada"');
+    expect(first).toMatch(
+      /- button "Sign in" \[ref=(e\d+)\] @\(100,200 80x30\)/,
+    );
+
+    // The same element keeps its ref, and can be used as a subtree root
+    const ref = first.match(/button "Sign in" \[ref=(e\d+)\]/)![1];
+    const sub = McpTestClient.text(
+      await client.callTool("get_accessibility_tree", { root: ref }),
+    );
+    expect(sub).toBe(`- button "Sign in" [ref=${ref}] @(100,200 80x30)`);
+  });
+
+  // -- set-of-marks -------------------------------------------------------
+
+  it("screenshot_with_marks numbers elements and click_mark clicks them", async () => {
+    const html =
+      "<a href='#top'>Home</a>" +
+      "<button onclick=\"this.textContent='Done'\">Go</button>";
+    await client.callTool("goto", {
+      url: `data:text/html,${encodeURIComponent(html)}`,
+    });
+
+    const result = await client.callTool("screenshot_with_marks");
+    expect(McpTestClient.imageData(result).length).toBeGreaterThan(0);
+    const legend = McpTestClient.text(result);
+    expect(legend).toMatch(/^\[1\] link "Home" at \(\d+, \d+\)$/m);
+    expect(legend).toMatch(/^\[2\] button "Go" at \(\d+, \d+\)$/m);
+
+    const click = await client.callTool("click_mark", { mark: 2 });
+    expect(McpTestClient.text(click)).toBe("Clicked mark 2.");
+    const tree = McpTestClient.text(
+      await client.callTool("get_accessibility_tree"),
+    );
+    expect(tree).toContain('button "Done"');
+  });
+
+  it("screenshot_with_marks masks password values", async () => {
+    const html = '<input type="password" value="hunter2">';
+    await client.callTool("goto", {
+      url: `data:text/html,${encodeURIComponent(html)}`,
+    });
+
+    const legend = McpTestClient.text(
+      await client.callTool("screenshot_with_marks"),
+    );
+    expect(legend).toMatch(/^\[1\] textbox "•••••••" at \(\d+, \d+\)$/m);
+    expect(legend).not.toContain("hunter2");
+  });
+
+  it("click_mark rejects unknown marks", async () => {
+    const result = await client.callTool("click_mark", { mark: 999 });
+    expect(result.isError).toBe(true);
+    expect(McpTestClient.text(result)).toContain("Unknown mark 999");
+  });
+
+  it("click_mark forgets marks once the page navigates", async () => {
+    const html = "<button>Go</button>";
+    await client.callTool("goto", {
+      url: `data:text/html,${encodeURIComponent(html)}`,
+    });
+    await client.callTool("screenshot_with_marks");
+    await client.callTool("goto", {
+      url: `data:text/html,${encodeURIComponent(`<p>Next</p>${html}`)}`,
+    });
+
+    const result = await client.callTool("click_mark", { mark: 1 });
+    expect(result.isError).toBe(true);
+    expect(McpTestClient.text(result)).toContain("Unknown mark 1");
+  });
+
+  // -- recording ----------------------------------------------------------
+
+  it("start_recording and stop_recording save a recording", async () => {
+    const started = await client.callTool("start_recording");
+    expect(McpTestClient.text(started)).toBe("Recording started.");
+    await client.callTool("move", { x: 50, y: 50 });
+    await client.callTool("wait", { ms: 500 });
+
+    const stopped = await client.callTool("stop_recording");
+    const recording = JSON.parse(McpTestClient.text(stopped));
+    expect(recording.mime_type).toBe("video/webm");
+    expect(recording.duration_ms).toBeGreaterThan(0);
+    expect(existsSync(recording.path)).toBe(true);
+    rmSync(recording.path);
+  });
+
+  it("stop_recording fails when nothing is recording", async () => {
+    const result = await client.callTool("stop_recording");
+    expect(result.isError).toBe(true);
+    expect(McpTestClient.text(result)).toMatch(/no recording/i);
+  });
+
   // -- click --------------------------------------------------------------
 
   it("click executes without error", async () => {
@@ -133,6 +361,35 @@ describe("playwright MCP server", () => {
     expect(McpTestClient.text(result)).toBe("Clicked.");
   });
 
+  it("click with modifiers and a click count", async () => {
+    const result = await client.callTool("click", {
+      x: 100,
+      y: 100,
+      modifiers: ["shift"],
+      clicks: 3,
+    });
+    expect(McpTestClient.text(result)).toBe("Clicked.");
+  });
+
+  it("click rejects more than three clicks", async () => {
+    const result = await client.callTool("click", {
+      x: 100,
+      y: 100,
+      clicks: 4,
+    });
+    expect(result.isError).toBe(true);
+  });
+
+  it("click can return a post-action screenshot", async () => {
+    const result = await client.callTool("click", {
+      x: 100,
+      y: 100,
+      screenshot: true,
+    });
+    expect(McpTestClient.text(result)).toBe("Clicked.");
+    expect(McpTestClient.imageData(result).length).toBeGreaterThan(0);
+  });
+
   // -- double_click -------------------------------------------------------
 
   it("double_click executes without error", async () => {
@@ -147,6 +404,15 @@ describe("playwright MCP server", () => {
     expect(McpTestClient.text(result)).toBe("Moved.");
   });
 
+  it("get_cursor_position reports the last move", async () => {
+    await client.callTool("move", { x: 320, y: 240 });
+    const result = await client.callTool("get_cursor_position");
+    const pos = JSON.parse(McpTestClient.text(result));
+    expect(pos.x).toBe(320);
+    expect(pos.y).toBe(240);
+    expect(pos.on_display).toBe(true);
+  });
+
   // -- scroll -------------------------------------------------------------
 
   it("scroll executes without error", async () => {
@@ -191,6 +457,121 @@ describe("playwright MCP server", () => {
     expect(McpTestClient.text(result)).toBe("Dragged.");
   });
 
+  // -- press / release ----------------------------------------------------
+
+  it("mouse_down and mouse_up track the held button", async () => {
+    const down = await client.callTool("mouse_down", {
+      x: 150,
+      y: 150,
+      button: "left",
+    });
+    expect(McpTestClient.text(down)).toBe("Pressed left. Held: left button.");
+
+    const up = await client.callTool("mouse_up", { x: 250, y: 250 });
+    expect(McpTestClient.text(up)).toBe("Released left. Nothing held.");
+  });
+
+  it("key_down is released by release_all", async () => {
+    const down = await client.callTool("key_down", { key: "shift" });
+    expect(McpTestClient.text(down)).toMatch(/^Pressed shift\. Held: /);
+
+    const released = await client.callTool("release_all");
+    expect(McpTestClient.text(released)).toBe("Released all inputs.");
+  });
+
+  // -- batch --------------------------------------------------------------
+
+  it("batch runs steps in order and returns a screenshot", async () => {
+    const result = await client.callTool("batch", {
+      actions: [
+        { action: "click", x: 100, y: 100 },
+        { action: "type", text: "hi" },
+        { action: "keypress", keys: ["enter"] },
+      ],
+      delay_ms: 10,
+      screenshot: true,
+    });
+    expect(result.isError).toBeFalsy();
+    expect(McpTestClient.text(result)).toBe(
+      "1. click: Clicked.\n2. type: Typed.\n3. keypress: Key(s) pressed.",
+    );
+    expect(McpTestClient.imageData(result).length).toBeGreaterThan(0);
+  });
+
+  it("batch stops at the first failing step", async () => {
+    const result = await client.callTool("batch", {
+      actions: [
+        { action: "move", x: 10, y: 10 },
+        { action: "click", x: -100, y: -100 },
+        { action: "type", text: "never typed" },
+      ],
+    });
+    expect(result.isError).toBe(true);
+    const text = McpTestClient.text(result);
+    expect(text).toMatch(/^1\. move: Moved\.\n2\. click: failed: .*outside/);
+    expect(text).toMatch(/Stopped after step 2 of 3\.$/);
+  });
+
+  // -- clipboard ----------------------------------------------------------
+
+  it("clipboard_set and clipboard_get round-trip text", async () => {
+    const set = await client.callTool("clipboard_set", { text: "mate 710" });
+    expect(McpTestClient.text(set)).toBe("Clipboard set.");
+
+    const get = await client.callTool("clipboard_get");
+    expect(McpTestClient.text(get)).toBe("mate 710");
+  });
+
+  it("paste_text executes without error", async () => {
+    const result = await client.callTool("paste_text", { text: "pasted" });
+    expect(McpTestClient.text(result)).toBe("Pasted.");
+  });
+
+  // -- screen synchronisation ---------------------------------------------
+
+  it("wait_for_stable_screen reports how long it waited", async () => {
+    const result = await client.callTool("wait_for_stable_screen", {
+      timeout_ms: 5000,
+    });
+    const status = JSON.parse(McpTestClient.text(result));
+    expect(typeof status.stable).toBe("boolean");
+    expect(status.waited_ms).toBeGreaterThanOrEqual(0);
+  });
+
+  it("wait_for_change times out on an untouched region", async () => {
+    const result = await client.callTool("wait_for_change", {
+      region: { x1: 0, y1: 0, x2: 5, y2: 5 },
+      timeout_ms: 300,
+      threshold: 1,
+    });
+    const status = JSON.parse(McpTestClient.text(result));
+    expect(status.changed).toBe(false);
+    expect(status.waited_ms).toBeGreaterThanOrEqual(300);
+  });
+
+  // -- template matching --------------------------------------------------
+
+  it("find_image locates a crop of the current screen", async () => {
+    const crop = await client.callTool("screenshot_region", {
+      x1: 40,
+      y1: 30,
+      x2: 80,
+      y2: 60,
+    });
+    const template = McpTestClient.imageData(crop);
+
+    const result = await client.callTool("find_image", { template });
+    const { matches } = JSON.parse(McpTestClient.text(result));
+    expect(matches.length).toBeGreaterThan(0);
+    expect(matches[0].score).toBeGreaterThanOrEqual(0.9);
+    expect(matches[0]).toMatchObject({ width: 40, height: 30 });
+  });
+
+  it("find_image requires a template", async () => {
+    const result = await client.callTool("find_image", {});
+    expect(result.isError).toBe(true);
+  });
+
   // -- wait ---------------------------------------------------------------
 
   it("wait completes in expected time", async () => {
@@ -203,3 +584,78 @@ describe("playwright MCP server", () => {
     expect(elapsed).toBeLessThan(2000);
   });
 });
+
+describe("playwright MCP server with MAX_SCALING_DIMENSION", () => {
+  beforeAll(async () => {
+    await scaledClient.setup({ MAX_SCALING_DIMENSION: "512x512" });
+  }, 30_000);
+
+  afterAll(async () => {
+    await scaledClient.teardown();
+  }, 10_000);
+
+  it("get_dimensions returns the scaled viewport size", async () => {
+    const result = await scaledClient.callTool("get_dimensions");
+    const dims = JSON.parse(McpTestClient.text(result));
+    expect(dims.width).toBe(512);
+    expect(dims.height).toBe(384);
+  });
+
+  it("screenshot is resized to the scaled viewport", async () => {
+    const result = await scaledClient.callTool("screenshot");
+    const buf = Buffer.from(McpTestClient.imageData(result), "base64");
+    const { width, height } = await sharp(buf).metadata();
+    expect(width).toBe(512);
+    expect(height).toBe(384);
+  });
+
+  it("screenshot_region is resized by the scaling factor", async () => {
+    const result = await scaledClient.callTool("screenshot_region", {
+      x1: 0,
+      y1: 0,
+      x2: 100,
+      y2: 50,
+    });
+    const buf = Buffer.from(McpTestClient.imageData(result), "base64");
+    const { width, height } = await sharp(buf).metadata();
+    expect(width).toBe(100);
+    expect(height).toBe(50);
+  });
+
+  it("zoom returns the region at native resolution", async () => {
+    const result = await scaledClient.callTool("zoom", {
+      x1: 0,
+      y1: 0,
+      x2: 100,
+      y2: 50,
+    });
+    const buf = Buffer.from(McpTestClient.imageData(result), "base64");
+    const { width, height } = await sharp(buf).metadata();
+    expect(width).toBe(200);
+    expect(height).toBe(100);
+    expect(McpTestClient.text(result)).toContain("(2.00x)");
+  });
+
+  it("zoom upscales to fit the requested size", async () => {
+    const result = await scaledClient.callTool("zoom", {
+      x1: 0,
+      y1: 0,
+      x2: 100,
+      y2: 50,
+      width: 800,
+    });
+    const buf = Buffer.from(McpTestClient.imageData(result), "base64");
+    const { width, height } = await sharp(buf).metadata();
+    expect(width).toBe(800);
+    expect(height).toBe(400);
+  });
+
+  it("accepts clicks up to the scaled bounds", async () => {
+    const ok = await scaledClient.callTool("click", { x: 512, y: 384 });
+    expect(McpTestClient.text(ok)).toBe("Clicked.");
+
+    const outside = await scaledClient.callTool("click", { x: 600, y: 100 });
+    expect(outside.isError).toBe(true);
+    expect(McpTestClient.text(outside)).toMatch(/outside viewport bounds/);
+  });
+});
@@ -0,0 +1,304 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { PlaywrightComputer } from "../src/computers/playwright-computer.js";
+import {
+  checkConfirmation,
+  checkPolicy,
+  loadPolicy,
+  Policy,
+  policyMiddleware,
+} from "../src/policy.js";
+import { fakeComputer } from "./test-helper.js";
+
+const check = (
+  policy: Policy,
+  tool: string,
+  args: Record<string, unknown>,
+  computer = fakeComputer(),
+) => checkPolicy(policy, computer, tool, args);
+
+describe("checkPolicy", () => {
+  it("allows everything under an empty policy", async () => {
+    expect(await check({}, "click", { x: 1, y: 1 })).toBeNull();
+  });
+
+  it("refuses disabled tools", async () => {
+    const policy = { tools: { clipboard_get: false, click: true } };
+    expect(await check(policy, "clipboard_get", {})).toMatch(/disabled/);
+    expect(await check(policy, "click", { x: 1, y: 1 })).toBeNull();
+  });
+
+  it("refuses pointer actions inside forbidden regions", async () => {
+    const policy = {
+      forbiddenRegions: [
+        { name: "taskbar", x: 0, y: 700, width: 1024, height: 68 },
+      ],
+    };
+    expect(await check(policy, "click", { x: 10, y: 710 })).toBe(
+      '(10, 710) is inside the forbidden region "taskbar".',
+    );
+    expect(await check(policy, "click", { x: 10, y: 699 })).toBeNull();
+    expect(
+      await check(policy, "drag", {
+        path: [
+          { x: 10, y: 10 },
+          { x: 10, y: 750 },
+        ],
+      }),
+    ).toMatch(/taskbar/);
+  });
+
+  it("only applies a region to its display", async () => {
+    const policy = {
+      forbiddenRegions: [{ x: 0, y: 0, width: 100, height: 100, display: 1 }],
+    };
+    expect(await check(policy, "click", { x: 5, y: 5 })).toBeNull();
+    expect(await check(policy, "click", { x: 5, y: 5, display: 1 })).toMatch(
+      /forbidden/,
+    );
+  });
+
+  it("blocks key combinations regardless of order and aliases", async () => {
+    const policy = { blockedKeys: ["ctrl+alt+delete", "super+l"] };
+    expect(
+      await check(policy, "keypress", { keys: ["Delete", "Alt", "Control"] }),
+    ).toBe("the key combination ctrl+alt+delete is blocked.");
+    expect(await check(policy, "keypress", { keys: ["cmd+l"] })).toMatch(
+      /super\+l/,
+    );
+    expect(await check(policy, "keypress", { keys: ["ctrl", "c"] })).toBeNull();
+  });
+
+  it("counts a line break in typed text as pressing enter", async () => {
+    const policy = { blockedKeys: ["ctrl+enter"] };
+    const computer = fakeComputer(["ctrl"]);
+    expect(await check(policy, "type", { text: "hi\n" }, computer)).toBe(
+      "the key combination ctrl+enter is blocked.",
+    );
+    expect(
+      await check(policy, "paste_text", { text: "a\r\nb" }, computer),
+    ).toMatch(/blocked/);
+    expect(await check(policy, "type", { text: "hi" }, computer)).toBeNull();
+    expect(
+      await check(policy, "batch", {
+        actions: [
+          { action: "key_down", key: "ctrl" },
+          { action: "type", text: "send\n" },
+        ],
+      }),
+    ).toMatch(/ctrl\+enter/);
+  });
+
+  it("counts keys already held down", async () => {
+    const policy = { blockedKeys: ["super+l"] };
+    const computer = fakeComputer(["command"]);
+    expect(await check(policy, "key_down", { key: "l" }, computer)).toMatch(
+      /blocked/,
+    );
+    expect(await check(policy, "keypress", { keys: ["l"] }, computer)).toMatch(
+      /blocked/,
+    );
+  });
+
+  it("checks batched actions in sequence", async () => {
+    const policy = { blockedKeys: ["ctrl+alt+delete"], maxTypeLength: 3 };
+    const batch = (actions: Record<string, unknown>[]) =>
+      check(policy, "batch", { actions });
+
+    expect(
+      await batch([
+        { action: "key_down", key: "ctrl" },
+        { action: "key_down", key: "alt" },
+        { action: "keypress", keys: ["delete"] },
+      ]),
+    ).toMatch(/ctrl\+alt\+delete/);
+    expect(
+      await batch([
+        { action: "key_down", key: "ctrl" },
+        { action: "key_up", key: "ctrl" },
+        { action: "key_down", key: "alt" },
+        { action: "keypress", keys: ["delete"] },
+      ]),
+    ).toBeNull();
+    expect(await batch([{ action: "type", text: "long" }])).toMatch(/limit/);
+  });
+
+  it("limits typed text", async () => {
+    const policy = { maxTypeLength: 5 };
+    expect(await check(policy, "type", { text: "hello" })).toBeNull();
+    expect(await check(policy, "paste_text", { text: "hello!" })).toBe(
+      "text of 6 characters exceeds the limit of 5.",
+    );
+  });
+
+  it("filters navigation by URL patterns", async () => {
+    const policy = {
+      urls: {
+        allow: ["https://*.example.com/*"],
+        deny: ["*/admin*"],
+      },
+    };
+    expect(
+      await check(policy, "goto", { url: "https://www.example.com/docs" }),
+    ).toBeNull();
+    expect(
+      await check(policy, "goto", { url: "https://www.example.com/admin" }),
+    ).toMatch(/denied/);
+    expect(await check(policy, "goto", { url: "https://evil.test/" })).toMatch(
+      /allow list/,
+    );
+  });
+});
+
+describe("policyMiddleware", () => {
+  /** A browser whose history is `urls`, currently at `index`. */
+  function fakeBrowser(urls: string[], index: number) {
+    const browser = Object.create(PlaywrightComputer.prototype);
+    Object.assign(browser, {
+      getHeldInputs: () => ({ buttons: [], keys: [] }),
+      getCurrentUrl: async () => urls[index],
+      back: async () => void index--,
+      forward: async () => void index++,
+    });
+    return browser as PlaywrightComputer;
+  }
+
+  it("undoes back and forward onto blocked URLs", async () => {
+    const browser = fakeBrowser(
+      ["https://evil.test/", "https://example.com/", "https://evil.test/"],
+      1,
+    );
+    const middleware = policyMiddleware(
+      { urls: { deny: ["https://evil.test/*"] } },
+      browser,
+    );
+    const back = () => browser.back().then(() => ({ content: [] as [] }));
+    const forward = () => browser.forward().then(() => ({ content: [] as [] }));
+
+    await expect(middleware("back", {}, back, {} as never)).rejects.toThrow(
+      "Blocked by policy: navigation to https://evil.test/ is denied.",
+    );
+    expect(await browser.getCurrentUrl()).toBe("https://example.com/");
+    await expect(
+      middleware("forward", {}, forward, {} as never),
+    ).rejects.toThrow(/denied/);
+    expect(await browser.getCurrentUrl()).toBe("https://example.com/");
+  });
+});
+
+describe("checkConfirmation", () => {
+  const policy: Policy = {
+    confirm: {
+      tools: ["clipboard_set"],
+      regions: [{ name: "payments", x: 100, y: 100, width: 50, height: 50 }],
+      keys: ["enter"],
+      newDomains: true,
+    },
+  };
+  const confirm = (
+    tool: string,
+    args: Record<string, unknown>,
+    known = new Set<string>(),
+  ) => checkConfirmation(policy, fakeComputer(), tool, args, known);
+
+  it("lets unmatched calls through", async () => {
+    expect(await confirm("click", { x: 10, y: 10 })).toBeNull();
+    expect(await confirm("keypress", { keys: ["tab"] })).toBeNull();
+    expect(
+      await checkConfirmation(
+        {},
+        fakeComputer(),
+        "clipboard_set",
+        {},
+        new Set(),
+      ),
+    ).toBeNull();
+  });
+
+  it("asks for listed tools", async () => {
+    expect(await confirm("clipboard_set", { text: "x" })).toEqual({
+      reasons: ["clipboard_set always needs confirmation."],
+      points: [],
+    });
+  });
+
+  it("asks for pointer actions in marked regions, with the target", async () => {
+    expect(await confirm("click", { x: 120, y: 130 })).toEqual({
+      reasons: ['click at (120, 130) is inside the region "payments".'],
+      points: [{ x: 120, y: 130, display: 0 }],
+    });
+  });
+
+  it("asks for configured keys, also inside a batch", async () => {
+    expect(await confirm("keypress", { keys: ["Return"] })).toMatchObject({
+      reasons: ["keypress presses enter."],
+    });
+    expect(
+      await confirm("batch", {
+        actions: [
+          { action: "click", x: 10, y: 10, display: 1 },
+          { action: "keypress", keys: ["ctrl", "enter"] },
+        ],
+      }),
+    ).toEqual({
+      reasons: ["keypress presses enter."],
+      points: [{ x: 10, y: 10, display: 1 }],
+    });
+  });
+
+  it("asks for enter typed as a line break, also inside a batch", async () => {
+    expect(await confirm("type", { text: "hello\n" })).toMatchObject({
+      reasons: ["type presses enter."],
+    });
+    expect(await confirm("paste_text", { text: "a\nb" })).toMatchObject({
+      reasons: ["paste_text presses enter."],
+    });
+    expect(
+      await confirm("batch", { actions: [{ action: "type", text: "ok\n" }] }),
+    ).toMatchObject({ reasons: ["type presses enter."] });
+    expect(await confirm("type", { text: "hello" })).toBeNull();
+  });
+
+  it("asks before visiting new domains", async () => {
+    const known = new Set(["example.com"]);
+    expect(
+      await confirm("goto", { url: "https://example.com/next" }, known),
+    ).toBeNull();
+    expect(
+      await confirm("goto", { url: "https://Other.test/" }, known),
+    ).toMatchObject({
+      reasons: ["other.test has not been visited in this session."],
+    });
+  });
+});
+
+describe("loadPolicy", () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+  });
+
+  function write(content: string): string {
+    dir = mkdtempSync(path.join(os.tmpdir(), "computermate-policy-"));
+    const file = path.join(dir, "policy.json");
+    writeFileSync(file, content);
+    return file;
+  }
+
+  it("reads a valid policy", () => {
+    const file = write('{ "maxTypeLength": 10, "tools": { "goto": false } }');
+    expect(loadPolicy(file)).toEqual({
+      maxTypeLength: 10,
+      tools: { goto: false },
+    });
+  });
+
+  it("rejects unknown rules", () => {
+    const file = write('{ "maxTypingLength": 10 }');
+    expect(() => loadPolicy(file)).toThrow(/Invalid policy file/);
+  });
+});
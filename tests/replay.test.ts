@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+
+import { MockComputer } from "../src/computers/mock-computer.js";
+import { formatReplayReport, replayTrace } from "../src/replay.js";
+import { TraceRecorder } from "../src/utils/trace-recorder.js";
+
+/** An empty 100x50 screen in the given colour. */
+function blankScreen(background: string): MockComputer {
+  return new MockComputer({
+    scene: { width: 100, height: 50, background, elements: [] },
+  });
+}
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(path.join(os.tmpdir(), "computermate-replay-"));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+/** Record a click followed by a screenshot of `computer`. */
+async function record(computer: MockComputer): Promise<string> {
+  const screen = await computer.screenshot();
+  const recorder = new TraceRecorder(dir, computer);
+  await recorder.record("click", { x: 10, y: 20 }, async () => ({
+    content: [{ type: "text", text: "Clicked." }],
+  }));
+  await recorder
+    .record("goto", { url: "nowhere" }, async () => {
+      throw new Error("Invalid URL");
+    })
+    .catch(() => {});
+  await recorder.record("screenshot", {}, async () => ({
+    content: [
+      {
+        type: "image",
+        data: screen,
+        mimeType: "image/png",
+      },
+    ],
+  }));
+  await recorder.flush();
+  return recorder.file;
+}
+
+describe("replayTrace", () => {
+  it("re-runs recorded calls and matches their screenshots", async () => {
+    const trace = await record(blankScreen("#336699"));
+    const computer = blankScreen("#336699");
+
+    const report = await replayTrace(trace, computer, { speed: 0 });
+    const clicks = computer
+      .getCalls()
+      .filter((call) => call.method === "click")
+      .map((call) => call.args.slice(0, 2));
+    expect(clicks).toEqual([[10, 20]]);
+    expect(report.total).toBe(3);
+    // The call that failed when recorded is skipped
+    expect(report.steps).toEqual([
+      { seq: 1, tool: "click", status: "ok" },
+      { seq: 3, tool: "screenshot", status: "ok", similarity: 1 },
+    ]);
+    expect(report.stoppedAt).toBeUndefined();
+  });
+
+  it("stops when a screenshot diverges", async () => {
+    const trace = await record(blankScreen("#336699"));
+
+    const report = await replayTrace(trace, blankScreen("#ffffff"), {
+      speed: 0,
+    });
+    expect(report.steps[1]).toMatchObject({
+      tool: "screenshot",
+      status: "diverged",
+      similarity: 0,
+    });
+    expect(report.stoppedAt).toBe(3);
+    expect(formatReplayReport(report)).toMatch(
+      /^Replayed 2 of 3 calls in \d+\.\ds: 1 ok, 0 failed, 1 diverged\.\n {2}#3 screenshot: diverged \(similarity 0\.000\)\nStopped at #3\.$/,
+    );
+  });
+
+  it("rejects thresholds outside 0–1", async () => {
+    const trace = await record(blankScreen("#336699"));
+
+    await expect(
+      replayTrace(trace, blankScreen("#336699"), { threshold: 1.5 }),
+    ).rejects.toThrow("Threshold must be between 0 and 1, got 1.5.");
+  });
+});
@@ -6,7 +6,7 @@ describe("NativeComputer scaling", () => {
   const originalEnv = { ...process.env };
 
   beforeAll(async () => {
-    computer = new NativeComputer({ maxScalingDimension: "1280x800" });
+    computer = await NativeComputer.create({ maxScalingDimension: "1280x800" });
   });
 
   afterAll(() => {
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import sharp from "sharp";
+import { decodeFrame, diffFrames } from "../src/utils/image-diff.js";
+import {
+  drawMarks,
+  formatMarkLegend,
+  Mark,
+} from "../src/utils/set-of-marks.js";
+
+const mark: Mark = {
+  mark: 1,
+  ref: "e4",
+  role: "button",
+  description: "Sign in",
+  bounds: { x: 40, y: 30, width: 50, height: 20 },
+  center: { x: 65, y: 40 },
+};
+
+async function blank(): Promise<Buffer> {
+  return sharp({
+    create: { width: 160, height: 100, channels: 3, background: "#ffffff" },
+  })
+    .png()
+    .toBuffer();
+}
+
+describe("drawMarks", () => {
+  it("draws inside the marked area and leaves the rest alone", async () => {
+    const before = await blank();
+    const after = await drawMarks(before, [mark]);
+    const { bounds } = diffFrames(
+      await decodeFrame(before),
+      await decodeFrame(after),
+    );
+    expect(bounds).not.toBeNull();
+    // Box plus the label above it
+    expect(bounds!.x).toBeGreaterThanOrEqual(38);
+    expect(bounds!.y).toBeGreaterThanOrEqual(12);
+    expect(bounds!.x + bounds!.width).toBeLessThanOrEqual(92);
+    expect(bounds!.y + bounds!.height).toBeLessThanOrEqual(52);
+  });
+
+  it("returns the image untouched without marks", async () => {
+    const image = await blank();
+    expect(await drawMarks(image, [])).toBe(image);
+  });
+});
+
+describe("formatMarkLegend", () => {
+  it("lists each mark with its role, description and centre", () => {
+    expect(
+      formatMarkLegend([
+        mark,
+        {
+          ...mark,
+          mark: 2,
+          role: "textbox",
+          description: "",
+          center: { x: 10.4, y: 7.6 },
+        },
+      ]),
+    ).toBe('[1] button "Sign in" at (65, 40)\n[2] textbox at (10, 8)');
+  });
+});
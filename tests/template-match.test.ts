@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import sharp from "sharp";
+import { findTemplate } from "../src/utils/template-match.js";
+
+/** A small textured icon: a dark square with a light cross through it. */
+async function icon(size: number): Promise<Buffer> {
+  const bar = Math.max(1, Math.round(size / 5));
+  const mid = Math.round((size - bar) / 2);
+  const light = (width: number, height: number) =>
+    sharp({
+      create: { width, height, channels: 3, background: "#f0f0f0" },
+    })
+      .png()
+      .toBuffer();
+  return sharp({
+    create: { width: size, height: size, channels: 3, background: "#202080" },
+  })
+    .composite([
+      { input: await light(size, bar), left: 0, top: mid },
+      { input: await light(bar, size), left: mid, top: 0 },
+    ])
+    .png()
+    .toBuffer();
+}
+
+/** A 400x300 mid-gray screen with the given images placed on it. */
+async function screen(
+  placed: { input: Buffer; left: number; top: number }[],
+): Promise<Buffer> {
+  return sharp({
+    create: { width: 400, height: 300, channels: 3, background: "#808080" },
+  })
+    .composite(placed)
+    .png()
+    .toBuffer();
+}
+
+describe("findTemplate", () => {
+  it("locates a small template exactly", async () => {
+    const template = await icon(20);
+    const image = await screen([{ input: template, left: 137, top: 81 }]);
+    const [match] = await findTemplate(image, template);
+    expect(match).toMatchObject({ x: 137, y: 81, width: 20, height: 20 });
+    expect(match.score).toBeGreaterThan(0.99);
+  });
+
+  it("locates a large template through the pyramid", async () => {
+    const template = await icon(90);
+    const image = await screen([{ input: template, left: 251, top: 163 }]);
+    const [match] = await findTemplate(image, template);
+    expect(match).toMatchObject({ x: 251, y: 163, width: 90, height: 90 });
+  });
+
+  it("returns every occurrence, best first", async () => {
+    const template = await icon(24);
+    const image = await screen([
+      { input: template, left: 30, top: 40 },
+      { input: template, left: 300, top: 200 },
+    ]);
+    const matches = await findTemplate(image, template);
+    expect(matches.map(({ x, y }) => ({ x, y }))).toEqual(
+      expect.arrayContaining([
+        { x: 30, y: 40 },
+        { x: 300, y: 200 },
+      ]),
+    );
+    expect(matches).toHaveLength(2);
+  });
+
+  it("honours maxResults", async () => {
+    const template = await icon(24);
+    const image = await screen([
+      { input: template, left: 30, top: 40 },
+      { input: template, left: 300, top: 200 },
+    ]);
+    expect(await findTemplate(image, template, { maxResults: 1 })).toHaveLength(
+      1,
+    );
+  });
+
+  it("scales the template before searching", async () => {
+    const image = await screen([{ input: await icon(20), left: 60, top: 70 }]);
+    const [match] = await findTemplate(image, await icon(40), {
+      templateScale: 0.5,
+    });
+    expect(match).toMatchObject({ x: 60, y: 70, width: 20, height: 20 });
+  });
+
+  it("finds nothing when the template is absent", async () => {
+    const image = await screen([]);
+    expect(await findTemplate(image, await icon(20))).toEqual([]);
+  });
+});
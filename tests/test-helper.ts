@@ -1,6 +1,9 @@
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
 import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import sharp from "sharp";
+
+import type { Computer } from "../src/computers/computer.js";
 
 /**
  * Spawns the computermate MCP server as a child process and connects an MCP
@@ -74,3 +77,43 @@ export class McpTestClient {
     return block.data;
   }
 }
+
+/** A PNG of the given size in one colour. */
+export function solidPng(
+  background: string,
+  width = 100,
+  height = 50,
+): Promise<Buffer> {
+  return sharp({ create: { width, height, channels: 3, background } })
+    .png()
+    .toBuffer();
+}
+
+/** The read-only parts of a computer that unit tests fake. */
+export type FakeComputer = Pick<
+  Computer,
+  "getEnvironment" | "getDimensions" | "getDisplay" | "getHeldInputs"
+>;
+
+/**
+ * A 100x50 Linux screen with `heldKeys` held down. Every display id is
+ * reported as a display of that size.
+ */
+export function fakeComputer(heldKeys: string[] = []): FakeComputer {
+  return {
+    getEnvironment: () => "linux",
+    getDimensions: async () => [100, 50],
+    getDisplay: async (id = 0) => ({
+      id,
+      name: `Display ${id}`,
+      isPrimary: id === 0,
+      x: 0,
+      y: 0,
+      width: 100,
+      height: 50,
+      scaledWidth: 100,
+      scaledHeight: 50,
+    }),
+    getHeldInputs: () => ({ buttons: [], keys: heldKeys }),
+  };
+}
@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { z } from "zod";
+
+import { withMiddleware } from "../src/middleware.js";
+import {
+  TraceCall,
+  TraceLine,
+  TraceRecorder,
+} from "../src/utils/trace-recorder.js";
+import { fakeComputer } from "./test-helper.js";
+
+const computer = fakeComputer();
+
+/** 1x1 PNG. */
+const PIXEL =
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==";
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(path.join(os.tmpdir(), "computermate-trace-"));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+async function readTrace(recorder: TraceRecorder): Promise<TraceLine[]> {
+  await recorder.flush();
+  const lines = (await readFile(recorder.file, "utf8")).trim().split("\n");
+  return lines.map((line) => JSON.parse(line));
+}
+
+describe("TraceRecorder", () => {
+  it("starts with a session line and records each call in order", async () => {
+    const recorder = new TraceRecorder(dir, computer);
+    await recorder.record("click", { x: 1, y: 2 }, async () => ({
+      content: [{ type: "text", text: "Clicked at (1, 2)." }],
+    }));
+    await recorder.record("wait", { ms: 10 }, async () => ({
+      content: [{ type: "text", text: "Waited 10ms." }],
+    }));
+
+    const [session, click, wait] = await readTrace(recorder);
+    expect(session).toMatchObject({
+      type: "session",
+      version: 1,
+      environment: "linux",
+      dimensions: [100, 50],
+    });
+    expect(click).toMatchObject({
+      type: "call",
+      seq: 1,
+      tool: "click",
+      args: { x: 1, y: 2 },
+      content: [{ type: "text", text: "Clicked at (1, 2)." }],
+    });
+    expect(wait).toMatchObject({ seq: 2, tool: "wait" });
+  });
+
+  it("names the backend in the session line when given", async () => {
+    const recorder = new TraceRecorder(dir, computer, "mock");
+    await recorder.record("wait", { ms: 10 }, async () => ({
+      content: [{ type: "text", text: "Waited 10ms." }],
+    }));
+
+    const [session] = await readTrace(recorder);
+    expect(session).toMatchObject({ environment: "linux", backend: "mock" });
+  });
+
+  it("saves result images beside the trace", async () => {
+    const recorder = new TraceRecorder(dir, computer);
+    await recorder.record("screenshot", {}, async () => ({
+      content: [{ type: "image", data: PIXEL, mimeType: "image/png" }],
+    }));
+
+    const call = (await readTrace(recorder))[1] as TraceCall;
+    expect(call.content).toEqual([
+      { type: "image", mimeType: "image/png", file: expect.any(String) },
+    ]);
+    const { file } = call.content![0] as { file: string };
+    const saved = await readFile(path.join(dir, file));
+    expect(saved.toString("base64")).toBe(PIXEL);
+  });
+
+  it("records errors and rethrows them", async () => {
+    const recorder = new TraceRecorder(dir, computer);
+    await expect(
+      recorder.record("goto", { url: "x" }, async () => {
+        throw new Error("Invalid URL");
+      }),
+    ).rejects.toThrow("Invalid URL");
+
+    const [, call] = await readTrace(recorder);
+    expect(call).toMatchObject({ tool: "goto", error: "Invalid URL" });
+  });
+});
+
+describe("withMiddleware", () => {
+  it("runs every tool call through the middleware", async () => {
+    const calls: string[] = [];
+    const server = new McpServer({ name: "test", version: "0.0.1" });
+    const wrapped = withMiddleware(server, [
+      async (tool, args, next) => {
+        calls.push(`${tool} ${JSON.stringify(args)}`);
+        return next();
+      },
+    ]);
+    wrapped.registerTool(
+      "echo",
+      { inputSchema: { text: z.string() } },
+      async ({ text }) => ({ content: [{ type: "text", text }] }),
+    );
+    wrapped.registerTool("ping", {}, async () => ({
+      content: [{ type: "text", text: "pong" }],
+    }));
+
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    const client = new Client({ name: "test-client", version: "0.0.1" });
+    await client.connect(clientTransport);
+
+    const echo = await client.callTool({
+      name: "echo",
+      arguments: { text: "hi" },
+    });
+    expect(echo.content).toEqual([{ type: "text", text: "hi" }]);
+    const ping = await client.callTool({ name: "ping" });
+    expect(ping.content).toEqual([{ type: "text", text: "pong" }]);
+    expect(calls).toEqual(['echo {"text":"hi"}', "ping {}"]);
+
+    await client.close();
+    await server.close();
+  });
+});
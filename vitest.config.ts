@@ -0,0 +1,28 @@
+import { defineConfig } from "vitest/config";
+
+/** Suites that need a display, a browser, a build or Docker. */
+const systemSuites = [
+  "tests/native.test.ts",
+  "tests/scaling.test.ts",
+  "tests/virtual-cursor.test.ts",
+  "tests/playwright.test.ts",
+  "tests/mock.test.ts",
+  "tests/http.test.ts",
+  "tests/mcp-server.test.ts",
+  "tests/docker-http.test.ts",
+];
+
+export default defineConfig({
+  test: {
+    projects: [
+      {
+        test: {
+          name: "unit",
+          include: ["tests/**/*.test.ts"],
+          exclude: systemSuites,
+        },
+      },
+      { test: { name: "system", include: systemSuites } },
+    ],
+  },
+});